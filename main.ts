@@ -1,25 +1,587 @@
-import { App, Editor, MarkdownView, Modal, Notice, Plugin, PluginSettingTab, Setting, TFile, normalizePath } from 'obsidian';
+import { AbstractInputSuggest, App, Editor, MarkdownView, Modal, Notice, Platform, Plugin, PluginSettingTab, Setting, SuggestModal, TAbstractFile, TextComponent, TFile, TFolder, Vault, moment, normalizePath } from 'obsidian';
+import type { Moment, unitOfTime } from 'moment';
+
+/**
+ * Where new notes are created: a fixed folder, the folder of the active
+ * file, or Obsidian's "default location for new notes"
+ */
+type NoteLocation = 'folder' | 'current' | 'default';
+
+/**
+ * A parsed piece of a template: literal text, or a variable whose
+ * parameters are templates of their own
+ */
+interface TemplateToken {
+	type: 'text' | 'variable';
+	/** Literal text of a text token */
+	value?: string;
+	/** Name of a variable token */
+	name?: string;
+	/** Parameters of a variable token */
+	params?: TemplateToken[][];
+	/** Filters applied to the value of a variable token, in order */
+	filters?: TemplateFilter[];
+	/** Position of the token in the template, for error messages */
+	start?: number;
+	/** Position after the end of the token */
+	end?: number;
+	/** Text of a variable token as written in the template */
+	source?: string;
+}
+
+/**
+ * A mistake in a template, found by validateTemplate
+ */
+interface TemplateIssue {
+	/** Position of the mistake in the template */
+	start: number;
+	/** Position after the end of the mistake */
+	end: number;
+	message: string;
+}
+
+/**
+ * A filter that modifies the output of a variable, e.g. |truncate:40
+ */
+interface TemplateFilter {
+	name: string;
+	params: TemplateToken[][];
+}
+
+/**
+ * A way of using a variable, as listed in the help and offered by
+ * autocomplete. A variable with several forms has one entry per form.
+ */
+interface VariableInfo {
+	/** Variable name, e.g. counter */
+	name: string;
+	/** How to write it, with placeholders for its parameters, e.g. {counter:name} */
+	syntax: string;
+	description: string;
+	/** Help section it is listed in */
+	section: string;
+	/** Template for the sample value shown by autocomplete, if not the syntax itself */
+	sample?: string;
+}
+
+/**
+ * A variable in the registry, built in or added through the API
+ */
+interface VariableDefinition {
+	name: string;
+	/** Help section it is listed in */
+	section: string;
+	/** Parameters, in order */
+	params: TemplateVariableParam[];
+	/** Ways of using the variable, for help and autocomplete */
+	forms: VariableForm[];
+	/** The variable as added through the API; undefined for built-in variables */
+	source?: TemplateVariable;
+	/** Only known once the note is named, so not usable in filename and folder templates */
+	contentOnly?: boolean;
+	resolve(params: string[], context: TemplateContext): string;
+}
+
+/**
+ * One way of using a variable, see VariableInfo
+ */
+interface VariableForm {
+	syntax: string;
+	description: string;
+	sample?: string;
+}
+
+/**
+ * A variable added by another plugin or a script through the API
+ */
+export interface TemplateVariable {
+	/** Name used in templates, e.g. project for {project} */
+	name: string;
+	description: string;
+	/** Parameters, in order */
+	params?: TemplateVariableParam[];
+	/** Template for the sample value shown by autocomplete, e.g. {project:ENG} */
+	example?: string;
+	/**
+	 * Compute the value of the variable. Called at most once per note for
+	 * the same parameters, and must not have side effects during dry runs.
+	 */
+	resolve(params: string[], context: TemplateVariableContext): string;
+}
+
+/**
+ * A parameter of a variable, used for validation
+ */
+export interface TemplateVariableParam {
+	name: string;
+	/** Whether the parameter may be left out */
+	optional?: boolean;
+	/** Whether the parameter may be repeated; only for the last parameter */
+	repeat?: boolean;
+	/** Smallest allowed value; makes the parameter a whole number */
+	min?: number;
+	/** Largest allowed value; makes the parameter a whole number */
+	max?: number;
+	/** The only allowed values */
+	values?: string[];
+	/**
+	 * Check a value beyond the rules above
+	 * @returns An error message, or null if the value is valid
+	 */
+	validate?(value: string): string | null;
+}
+
+/**
+ * What the resolver of a variable added through the API knows about the note
+ */
+export interface TemplateVariableContext {
+	/** Date that date and time variables refer to */
+	date: Date;
+	/** Note that {activefile} and {fm:key} refer to */
+	sourceFile: TFile | null;
+	/** Final name of the note, once known */
+	title?: string;
+	/** Whether the value is only previewed */
+	dryRun: boolean;
+}
+
+/**
+ * Options of a note created through the API. Anything left out is taken
+ * from the profile, or from the default template.
+ */
+export interface CreateNoteOptions {
+	/** Profile id or name */
+	profile?: string;
+	template?: string;
+	content?: string;
+	contentFile?: string;
+	folder?: string;
+	location?: NoteLocation;
+	/** Whether to open the note as configured for its template; true by default */
+	open?: boolean;
+}
+
+/**
+ * Public API for other plugins and scripts, available as
+ * app.plugins.getPlugin('template-filename').api
+ */
+export interface TemplateFilenameApi {
+	/**
+	 * Add a variable to all templates
+	 * @returns Function that removes the variable again
+	 */
+	registerVariable(variable: TemplateVariable): () => void;
+	unregisterVariable(name: string): void;
+	/**
+	 * Process a template, asking for any prompts first
+	 * @returns The processed template, or null if a prompt was cancelled
+	 */
+	processTemplate(template: string, options?: { date?: Date, sourceFile?: TFile | null, dryRun?: boolean }): Promise<string | null>;
+	/**
+	 * Create a note from a template or profile
+	 * @returns The note, or undefined if creation failed or was cancelled
+	 */
+	createNote(options?: CreateNoteOptions): Promise<TFile | undefined>;
+	/**
+	 * Find the mistakes in a template, by default a filename or folder
+	 * template; pass content = true for note content
+	 */
+	validateTemplate(template: string, content?: boolean): TemplateIssue[];
+}
+
+/** Sections of the variable help, in order */
+const VARIABLE_SECTIONS = [
+	'Date and time', 'Unique identifiers and timestamps', 'Counter variables', 'Context variables',
+	'Prompts', 'System variables', 'Text formatting', 'Note content variables', 'Custom variables'
+];
+
+/** Names of the filters that can follow a variable with | */
+const FILTER_NAMES = [
+	'lower', 'lowercase', 'upper', 'uppercase', 'slugify', 'trim', 'pad', 'truncate',
+	'replace', 'substring', 'camel', 'snake', 'kebab', 'ascii'
+];
+
+const FILTER_HELP = [
+	{ name: '|lower, |upper', desc: 'Convert to lowercase or uppercase' },
+	{ name: '|camel, |snake, |kebab', desc: 'camelCase, snake_case or kebab-case' },
+	{ name: '|slugify', desc: 'Convert to URL-friendly slug' },
+	{ name: '|ascii', desc: 'Transliterate to ASCII (ä → a, ß → ss)' },
+	{ name: '|trim', desc: 'Remove surrounding whitespace' },
+	{ name: '|pad:N,C,right', desc: 'Pad to N characters with C (default 0), on the left unless right' },
+	{ name: '|truncate:N,suffix', desc: 'Shorten to N characters, ending with suffix' },
+	{ name: '|substring:start,end', desc: 'Part of the text, negative positions count from the end' },
+	{ name: '|replace:search,replacement', desc: 'Replace all occurrences of search' }
+];
+
+const SYNTAX_HELP = [
+	{ name: '{slugify:{MMMM} review}', desc: 'Variables can be nested inside parameters' },
+	{ name: '{hash:"a, b"}', desc: 'Quote a parameter to use commas and braces literally' },
+	{ name: '\\{ and \\}', desc: 'Literal braces' }
+];
+
+/** Letters that transliterate to more than one ASCII character or don't decompose */
+const ASCII_REPLACEMENTS: Record<string, string> = {
+	'ß': 'ss', 'æ': 'ae', 'Æ': 'AE', 'œ': 'oe', 'Œ': 'OE', 'ø': 'o', 'Ø': 'O',
+	'ł': 'l', 'Ł': 'L', 'đ': 'd', 'Đ': 'D', 'ð': 'd', 'Ð': 'D', 'þ': 'th', 'Þ': 'Th'
+};
+
+/**
+ * What to do when the generated note path is already taken
+ */
+type CollisionPolicy = 'suffix' | 'dash' | 'regenerate' | 'open' | 'ask';
+
+/**
+ * Whether to insert a link to a new note into the active editor, and
+ * whether to open the new note
+ */
+type LinkBehavior = 'open' | 'link' | 'link-open';
+
+/**
+ * Where to look for existing notes when continuing counters
+ */
+type CounterInference = 'off' | 'folder' | 'vault';
+
+/**
+ * Where a new note is opened, if at all
+ */
+type OpenIn = 'current' | 'tab' | 'split' | 'window' | 'none';
+
+/**
+ * Mode a new note is opened in; 'default' follows Obsidian's setting
+ */
+type ViewMode = 'default' | 'source' | 'preview';
+
+/**
+ * Where the cursor is placed when there is no {cursor} marker
+ */
+type CursorPosition = 'start' | 'end';
+
+/**
+ * Everything needed to create and open a note: the default template,
+ * or one of the profiles
+ */
+interface NoteTemplate {
+	template: string;
+	content: string;
+	/** Path of a vault note used as content instead of the content above */
+	contentFile: string;
+	folder: string;
+	location: NoteLocation;
+	openIn: OpenIn;
+	viewMode: ViewMode;
+	cursorPosition: CursorPosition;
+}
+
+interface TemplateProfile extends NoteTemplate {
+	id: string;
+	name: string;
+}
+
+/**
+ * Which date of an existing note its date variables refer to when it is
+ * renamed in bulk
+ */
+type BulkDateSource = 'ctime' | 'mtime' | 'frontmatter';
+
+/**
+ * A note in a bulk rename, with the name it gets
+ */
+interface BulkRenameEntry {
+	file: TFile;
+	newPath: string;
+	/** 'taken' if another note already has the new name */
+	status: 'rename' | 'unchanged' | 'taken';
+}
+
+/**
+ * How the value of a variable defined in the settings is computed
+ */
+type UserVariableType = 'constant' | 'alias' | 'script';
+
+/**
+ * A variable defined in the settings
+ */
+interface UserVariable {
+	/** Name used in templates, e.g. team for {team} */
+	name: string;
+	type: UserVariableType;
+	/** The constant, the template of an alias, or the body of a script */
+	value: string;
+}
+
+/**
+ * The parts of the Templater plugin used to run it on new notes
+ */
+interface TemplaterPlugin {
+	settings?: {
+		templates_folder?: string;
+		trigger_on_file_creation?: boolean;
+	};
+	templater?: {
+		overwrite_file_commands(file: TFile): Promise<void>;
+	};
+}
+
+/**
+ * Options of the core Templates plugin
+ */
+interface CoreTemplatesOptions {
+	folder?: string;
+	dateFormat?: string;
+	timeFormat?: string;
+}
+
+/**
+ * The parts of the app used to reach other plugins, which are not in the
+ * API typings
+ */
+interface AppWithPlugins extends App {
+	internalPlugins?: {
+		getEnabledPluginById(id: string): { options?: CoreTemplatesOptions } | null;
+	};
+	plugins?: {
+		getPlugin(id: string): unknown;
+	};
+}
+
+/**
+ * Node's os module, only available in the desktop app
+ */
+type OsModule = typeof import('os');
+
+/**
+ * The window of the desktop app, which can load Node modules
+ */
+interface NodeWindow extends Window {
+	require?(id: string): unknown;
+}
+
+/**
+ * Next values of the counter variables
+ */
+interface CounterState {
+	/** Next value of {counter} */
+	global: number;
+	/** Next value of {tag} */
+	tag: number;
+	/** Next values of {counter:name}, keyed by name */
+	named: Record<string, number>;
+}
 
 interface TemplateFilenameSettings {
 	defaultTemplate: string;
 	defaultContent: string;
+	defaultContentFile: string;
+	defaultFolder: string;
+	defaultLocation: NoteLocation;
+	defaultOpenIn: OpenIn;
+	defaultViewMode: ViewMode;
+	defaultCursorPosition: CursorPosition;
+	collisionPolicy: CollisionPolicy;
+	profiles: TemplateProfile[];
+	counters: CounterState;
+	counterInference: CounterInference;
+	/** Locale for month and day names; empty to follow Obsidian's language */
+	locale: string;
+	/** First day of the week (0-6, starting with Sunday), or -1 for the locale's default */
+	weekStart: number;
+	/** Replaces characters that are not allowed in filenames */
+	filenameReplacement: string;
+	/** Maximum length of file and folder names, including the extension; 0 for no limit */
+	maxFilenameLength: number;
+	/** Id of the profile used to name extracted notes; empty for the default template */
+	extractProfile: string;
+	extractLinkStyle: 'link' | 'embed';
+	linkBehavior: LinkBehavior;
+	/** Rename notes created outside the plugin that match the rules below */
+	autoRename: boolean;
+	/** Id of the profile used to rename notes; empty for the default template */
+	autoRenameProfile: string;
+	/** Rename notes named "Untitled", "Untitled 1"... */
+	autoRenameUntitled: boolean;
+	/** Names of untitled notes, which depend on Obsidian's language */
+	untitledNames: string[];
+	/** Rename all new notes in these folders and their subfolders */
+	autoRenameFolders: string[];
+	userVariables: UserVariable[];
+}
+
+/**
+ * State shared by the filename and content templates of a single note
+ */
+interface TemplateContext {
+	/** Values of already resolved variables, keyed by their expression */
+	values: Record<string, string>;
+	/** Final name of the note, known once the filename has been generated */
+	title?: string;
+	/** Evaluate without side effects, e.g. for previews */
+	dryRun?: boolean;
+	/** Counter values after this note, committed once the note is created */
+	counters?: CounterState;
+	/** Saved counter values when this note started using them, see commitCounters */
+	counterBase?: CounterState;
+	/** Counters this note reset, which are saved as they are */
+	counterResets?: { counter: boolean, tag: boolean };
+	/** File that {activefile}, {activefolder} and {fm:key} refer to */
+	sourceFile?: TFile | null;
+	/** Text selected in the active editor */
+	selection?: string;
+	/** Clipboard text, read before processing if a template uses it */
+	clipboard?: string;
+	/** Offset of the {cursor} marker in the processed content */
+	cursorOffset?: number;
+	/** Leave CURSOR_MARKER in the content instead of recording the offset */
+	cursorMarker?: boolean;
+	/** Date that date and time variables refer to; now if not set */
+	date?: Date;
+	/** The generated filename before it was sanitized, and why it changed */
+	sanitized?: { from: string, changes: string[] };
+	/** The generated folder before it was sanitized, and why it changed */
+	sanitizedFolder?: { from: string, changes: string[] };
+	/** Set when the collision policy chose an existing note instead of creating one */
+	usedExisting?: boolean;
 }
 
 const DEFAULT_SETTINGS: TemplateFilenameSettings = {
 	defaultTemplate: 'YYYY-MM-DD_HH-mm-ss',
-	defaultContent: ''
+	defaultContent: '',
+	defaultContentFile: '',
+	defaultFolder: '',
+	defaultLocation: 'folder',
+	defaultOpenIn: 'current',
+	defaultViewMode: 'default',
+	defaultCursorPosition: 'end',
+	collisionPolicy: 'suffix',
+	profiles: [],
+	counters: {
+		global: 1,
+		tag: 1,
+		named: {}
+	},
+	counterInference: 'off',
+	locale: '',
+	weekStart: -1,
+	filenameReplacement: '-',
+	maxFilenameLength: 200,
+	extractProfile: '',
+	extractLinkStyle: 'link',
+	linkBehavior: 'open',
+	autoRename: false,
+	autoRenameProfile: '',
+	autoRenameUntitled: true,
+	untitledNames: ['Untitled'],
+	autoRenameFolders: [],
+	userVariables: []
+}
+
+const NOTE_LOCATIONS: Record<NoteLocation, string> = {
+	folder: 'In the folder specified below',
+	current: 'Same folder as current file',
+	default: 'Default location for new notes'
+}
+
+const COLLISION_POLICIES: Record<CollisionPolicy, string> = {
+	suffix: 'Append a number: "Note (2)"',
+	dash: 'Append a number: "Note-2"',
+	regenerate: 'Regenerate random values and IDs',
+	open: 'Open the existing note',
+	ask: 'Ask what to do'
+}
+
+const OPEN_IN: Record<OpenIn, string> = {
+	current: 'In the current tab',
+	tab: 'In a new tab',
+	split: 'In a split',
+	window: 'In a new window',
+	none: "Don't open the note"
+}
+
+const VIEW_MODES: Record<ViewMode, string> = {
+	default: 'Default view',
+	source: 'Editing view',
+	preview: 'Reading view'
+}
+
+const CURSOR_POSITIONS: Record<CursorPosition, string> = {
+	start: 'Start of the note',
+	end: 'End of the note'
+}
+
+const LINK_BEHAVIORS: Record<LinkBehavior, string> = {
+	open: 'Open the new note',
+	link: 'Insert a link at the cursor and stay',
+	'link-open': 'Insert a link at the cursor and open the new note'
+}
+
+const BULK_DATE_SOURCES: Record<BulkDateSource, string> = {
+	ctime: 'Creation time',
+	mtime: 'Modification time',
+	frontmatter: 'Frontmatter property, else creation time'
+}
+
+const COUNTER_INFERENCE: Record<CounterInference, string> = {
+	off: 'Off',
+	folder: 'From notes in the target folder',
+	vault: 'From notes anywhere in the vault'
+}
+
+const USER_VARIABLE_TYPES: Record<UserVariableType, string> = {
+	constant: 'Constant',
+	alias: 'Alias of a template',
+	script: 'JavaScript'
 }
 
+/** Names allowed for variables added through the API or in the settings */
+const VARIABLE_NAME_PATTERN = /^[A-Za-z][\w-]*$/;
+
+/** Characters that are not allowed in filenames on Windows or Android */
+const ILLEGAL_FILENAME_CHARACTERS = '\\:*?"<>|';
+
+/** Names reserved for devices on Windows, with or without an extension */
+const RESERVED_FILENAMES = /^(CON|PRN|AUX|NUL|COM[1-9]|LPT[1-9])(\..*)?$/i;
+
+/** Local storage keys for the per-device names, which are not synced with the vault */
+const DEVICE_NAME_KEY = 'template-filename-device-name';
+const USER_NAME_KEY = 'template-filename-user-name';
+
+/**
+ * Local storage key for running JavaScript variables. Scripts have full
+ * access to the app, so synced settings from a shared vault must not be able
+ * to turn them on.
+ */
+const ALLOW_SCRIPTS_KEY = 'template-filename-allow-scripts';
+
+/** Left at the {cursor} marker in notes that Templater processes, see takeCursorMarker */
+const CURSOR_MARKER = '%%template-filename-cursor%%';
+
+/** Variables whose value changes every time they are resolved */
+const RANDOM_VARIABLES = ['random', 'uuid', 'shortid'];
+
+/**
+ * Notes last changed longer ago than this (in milliseconds) when they are
+ * created were brought in by sync, see autoRenameFile
+ */
+const AUTO_RENAME_MAX_AGE = 10000;
+
+/** How often to regenerate random values before falling back to a number suffix */
+const MAX_REGENERATE_ATTEMPTS = 10;
+
 export default class TemplateFilenamePlugin extends Plugin {
 	settings: TemplateFilenameSettings;
-	private globalCounter: number = 1;
-	private tagCounter: number = undefined;
-	private namedCounters: Record<string, number> = {};
+	api: TemplateFilenameApi;
+	private profileCommandIds: string[] = [];
+	/** Built-in variables and those added through the API, keyed by name */
+	private variables = new Map<string, VariableDefinition>(this.createBuiltInVariables().map(variable => [variable.name, variable]));
+	/** Counter values found in existing notes by inferCounters, cleared when notes change */
+	private inferredCounters = new Map<string, number[]>();
+	/** Why each JavaScript variable failed the last time it ran, keyed by name */
+	private scriptErrors = new Map<string, string>();
+	/** Notes created by the plugin itself, which are never renamed automatically */
+	private createdPaths = new Set<string>();
 
 	async onload() {
 		await this.loadSettings();
-
-		this.tagCounter = parseInt(this.app.loadLocalStorage('template-filename-tag-count') || "1");
+		this.api = this.createApi();
 
 		// Add ribbon icon
 		this.addRibbonIcon('file-plus', 'Create note with template filename', () => {
@@ -40,20 +602,57 @@ export default class TemplateFilenamePlugin extends Plugin {
 			id: 'create-note-with-default-template',
 			name: 'Create note with default template',
 			callback: async () => {
-				try {
-					const processedFilename = this.processTemplate(this.settings.defaultTemplate);
-					const file = await this.createNote(processedFilename, this.settings.defaultContent);
-					new Notice(`Created note: ${file.name}`);
-					
-					// Open the new note
-					const activeLeaf = this.app.workspace.getLeaf(false);
-					if (activeLeaf) {
-						await activeLeaf.openFile(file);
-					}
-				} catch (error) {
-					// Already handled in createNote
+				await this.createNoteFromTemplate(this.getNoteTemplate());
+			}
+		});
+
+		// Add command to move the selection into a new note
+		this.addCommand({
+			id: 'extract-selection-to-note',
+			name: 'Extract selection into new note',
+			editorCheckCallback: (checking, editor, view) => {
+				if (!editor.somethingSelected()) {
+					return false;
 				}
+				if (!checking) {
+					void this.extractSelection(editor, view.file);
+				}
+				return true;
+			}
+		});
+
+		// Add one command per template profile
+		this.registerProfileCommands();
+
+		// Add command to rename existing notes with a template
+		this.addCommand({
+			id: 'bulk-rename-notes',
+			name: 'Rename notes with template',
+			callback: () => {
+				const activeFile = this.app.workspace.getActiveFile();
+				new BulkRenameModal(this.app, this, activeFile && activeFile.parent ? activeFile.parent.path : '').open();
+			}
+		});
+
+		// Offer the same for folders in the file explorer
+		this.registerEvent(this.app.workspace.on('file-menu', (menu, file) => {
+			if (file instanceof TFolder) {
+				menu.addItem(item => item
+					.setTitle('Rename notes with template')
+					.setIcon('file-pen-line')
+					.onClick(() => new BulkRenameModal(this.app, this, file.path).open()));
 			}
+		}));
+
+		// Rename notes created elsewhere. The vault reports every existing
+		// file as created while loading, so wait until that is done
+		this.app.workspace.onLayoutReady(() => {
+			this.registerEvent(this.app.vault.on('create', file => this.autoRenameFile(file)));
+
+			// Counters found in existing notes may have changed
+			this.registerEvent(this.app.vault.on('create', () => this.inferredCounters.clear()));
+			this.registerEvent(this.app.vault.on('delete', () => this.inferredCounters.clear()));
+			this.registerEvent(this.app.vault.on('rename', () => this.inferredCounters.clear()));
 		});
 
 		// Add settings tab
@@ -67,6 +666,34 @@ export default class TemplateFilenamePlugin extends Plugin {
 
 	async loadSettings() {
 		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+		this.settings.profiles = (this.settings.profiles || []).map(profile => Object.assign({
+			id: this.generateShortId(),
+			name: 'Untitled profile',
+			template: DEFAULT_SETTINGS.defaultTemplate,
+			content: '',
+			contentFile: '',
+			folder: '',
+			location: 'folder',
+			openIn: 'current',
+			viewMode: 'default',
+			cursorPosition: 'end'
+		}, profile));
+
+		this.settings.userVariables = (this.settings.userVariables || []).map(variable => Object.assign({
+			name: '',
+			type: 'constant',
+			value: ''
+		}, variable));
+
+		// The tag counter used to live in local storage, so migrate it
+		// the first time counters are loaded from the plugin data
+		const counters: Partial<CounterState> = this.settings.counters || {};
+		const legacyTag = parseInt(this.app.loadLocalStorage('template-filename-tag-count') || '1');
+		this.settings.counters = {
+			global: typeof counters.global === 'number' ? counters.global : 1,
+			tag: typeof counters.tag === 'number' ? counters.tag : legacyTag,
+			named: Object.assign({}, counters.named)
+		};
 	}
 
 	async saveSettings() {
@@ -74,296 +701,2718 @@ export default class TemplateFilenamePlugin extends Plugin {
 	}
 
 	/**
-	 * Process a template string to create a filename
-	 * @param template The template string
-	 * @returns The processed template with all variables replaced
+	 * Create a new profile with default values and append it to the settings
+	 * @returns The new profile
 	 */
-	processTemplate(template: string): string {
-		// Create a tokenizer to properly parse the template
-		const tokens = this.tokenizeTemplate(template);
-		let result = '';
+	addProfile(): TemplateProfile {
+		const profile: TemplateProfile = {
+			id: this.generateShortId(),
+			name: `Profile ${this.settings.profiles.length + 1}`,
+			template: this.settings.defaultTemplate,
+			content: '',
+			contentFile: '',
+			folder: '',
+			location: 'folder',
+			openIn: this.settings.defaultOpenIn,
+			viewMode: this.settings.defaultViewMode,
+			cursorPosition: this.settings.defaultCursorPosition
+		};
+		this.settings.profiles.push(profile);
+		return profile;
+	}
 
-		// Process each token
-		for (const token of tokens) {
-			if (token.type === 'text' && token.value !== undefined) {
-				result += token.value;
-			} else if (token.type === 'variable' && token.name !== undefined) {
-				result += this.processVariable(token.name, token.params || []);
-			}
-		}
+	/**
+	 * Find a profile by its id
+	 * @param id Profile id
+	 * @returns The profile, or undefined if it doesn't exist
+	 */
+	getProfile(id: string): TemplateProfile | undefined {
+		return this.settings.profiles.find(profile => profile.id === id);
+	}
 
-		return result;
+	/**
+	 * Get the templates and open options of a profile, falling back to
+	 * the default ones
+	 * @param profileId Profile id; empty for the default template
+	 * @returns The profile, or the default note template
+	 */
+	getNoteTemplate(profileId = ''): NoteTemplate {
+		const profile = this.getProfile(profileId);
+		if (profile) {
+			return profile;
+		}
+		return {
+			template: this.settings.defaultTemplate,
+			content: this.settings.defaultContent,
+			contentFile: this.settings.defaultContentFile,
+			folder: this.settings.defaultFolder,
+			location: this.settings.defaultLocation,
+			openIn: this.settings.defaultOpenIn,
+			viewMode: this.settings.defaultViewMode,
+			cursorPosition: this.settings.defaultCursorPosition
+		};
 	}
 
 	/**
-	 * Tokenize a template string into text and variable tokens
-	 * @param template The template string
-	 * @returns Array of tokens
+	 * (Re-)register one command per profile, removing commands of
+	 * profiles that were deleted since the last registration
 	 */
-	private tokenizeTemplate(template: string): Array<{type: string, value?: string, name?: string, params?: string[]}> {
-		const tokens: Array<{type: string, value?: string, name?: string, params?: string[]}> = [];
-		let currentPos = 0;
-		
-		while (currentPos < template.length) {
-			// Look for date/time variables
-			
-			// Look for special variables in curly braces
-			if (template[currentPos] === '{') {
-				const endBracePos = template.indexOf('}', currentPos);
-				if (endBracePos !== -1) {
-					// Found a complete variable in braces
-					// Add any text before the opening brace
-					if (currentPos > 0) {
-						const textBefore = template.substring(0, currentPos);
-						if (textBefore) {
-							tokens.push({
-								type: 'text',
-								value: textBefore
-							});
-						}
-					}
-					
-					// Parse the variable and its parameters
-					const varContent = template.substring(currentPos + 1, endBracePos);
-					const colonPos = varContent.indexOf(':');
-					
-					if (colonPos !== -1) {
-						// Variable with parameters
-						const varName = varContent.substring(0, colonPos);
-						const varParams = varContent.substring(colonPos + 1).split(',');
-						
-						tokens.push({
-							type: 'variable',
-							name: varName,
-							params: varParams
-						});
-					} else {
-						// Variable without parameters
-						tokens.push({
-							type: 'variable',
-							name: varContent,
-							params: []
-						});
-					}
-					
-					// Move past the closing brace
-					template = template.substring(endBracePos + 1);
-					currentPos = 0;
-					continue;
+	registerProfileCommands() {
+		this.profileCommandIds.forEach(id => this.removeCommand(id));
+		this.profileCommandIds = [];
+
+		for (const profile of this.settings.profiles) {
+			const id = `create-note-with-profile-${profile.id}`;
+			this.addCommand({
+				id,
+				name: `Create note with profile: ${profile.name}`,
+				callback: async () => {
+					await this.createNoteFromTemplate(profile);
 				}
-			}
-			
-			// Move to the next character
-			currentPos++;
-			
-			// If we've reached the end, add the remaining text
-			if (currentPos === template.length) {
-				tokens.push({
-					type: 'text',
-					value: template
-				});
-			}
+			});
+			this.profileCommandIds.push(id);
 		}
-		
-		return tokens;
 	}
 
 	/**
-	 * Process a variable token
-	 * @param name Variable name
-	 * @param params Variable parameters
-	 * @returns The processed value
+	 * Process a template, create the note and open it or link to it from
+	 * the active editor, depending on the link behavior setting
+	 * @param note Templates and open options of the note
+	 * @returns The created file, or the existing file if the collision
+	 * policy opened it instead; undefined if creation failed or was cancelled
 	 */
-	private processVariable(name: string, params: string[] = []): string {
-		const now = new Date();
-		
-		// Date/time variables
-		switch (name) {
-			// Year
-			case 'YYYY': return now.getFullYear().toString();
-			case 'YY': return now.getFullYear().toString().slice(2);
-			
-			// Month
-			case 'MMMM': return this.getMonthName(now.getMonth());
-			case 'MMM': return this.getMonthName(now.getMonth()).slice(0, 3);
-			case 'MM': return (now.getMonth() + 1).toString().padStart(2, '0');
-			case 'M': return (now.getMonth() + 1).toString();
-			
-			// Day
-			case 'DDD': return this.getDayOfYear(now).toString().padStart(3, '0');
-			case 'DD': return now.getDate().toString().padStart(2, '0');
-			case 'D': return now.getDate().toString();
-			
-			// Day names
-			case 'dddd': return this.getDayName(now.getDay());
-			case 'ddd': return this.getDayName(now.getDay()).slice(0, 3);
-			
-			// Week
-			case 'WW': return this.getWeekNumber(now).toString().padStart(2, '0');
-			
-			// Quarter
-			case 'Q': return (Math.floor(now.getMonth() / 3) + 1).toString();
-			
-			// Hour
-			case 'HH': return now.getHours().toString().padStart(2, '0');
-			case 'H': return now.getHours().toString();
-			
-			// Minute
-			case 'mm': return now.getMinutes().toString().padStart(2, '0');
-			case 'm': return now.getMinutes().toString();
-			
-			// Second
-			case 'ss': return now.getSeconds().toString().padStart(2, '0');
-			case 's': return now.getSeconds().toString();
-			
-			// Millisecond
-			case 'SSS': return now.getMilliseconds().toString().padStart(3, '0');
-			
-			// Random string
-			case 'random': {
-				const length = parseInt(params[0]) || 6;
-				return this.generateRandomString(length);
+	async createNoteFromTemplate(note: NoteTemplate): Promise<TFile | undefined> {
+		// Remember where the cursor was before any prompts are shown
+		const linkBehavior = this.settings.linkBehavior;
+		const editor = linkBehavior !== 'open' ? this.getActiveEditor() : null;
+		const cursor = editor ? editor.getCursor() : null;
+		const sourceFile = this.app.workspace.getActiveFile();
+
+		const context = this.createContext();
+		const file = await this.generateNote(note, context);
+		if (!file) {
+			return undefined;
+		}
+
+		// Link to the new note
+		if (editor && cursor) {
+			const link = this.app.fileManager.generateMarkdownLink(file, sourceFile ? sourceFile.path : '');
+			editor.replaceRange(link, cursor);
+			if (linkBehavior === 'link') {
+				return file;
 			}
-			
-			// Unique identifiers
-			case 'uuid': return this.generateUUID();
-			case 'shortid': return this.generateShortId();
-			
-			// Hash
-			case 'hash': return this.createHash(params[0] || '');
-			
-			// Timestamps
-			case 'unixtime': {
-				const base = parseInt(params[0]) || 10;
-				if (base >= 2 && base <= 36) {
-					return Math.floor(Date.now() / 1000).toString(base);
-				}
-				return Math.floor(Date.now() / 1000).toString();
+		}
+
+		await this.openNote(file, note, context.cursorOffset);
+		return file;
+	}
+
+	/**
+	 * Open a note where its template says, and place the cursor at the
+	 * {cursor} marker or at the configured position
+	 * @param file The note to open
+	 * @param note Open options of the note
+	 * @param cursorOffset Offset of the {cursor} marker in the content, if any
+	 */
+	async openNote(file: TFile, note: NoteTemplate, cursorOffset?: number) {
+		if (note.openIn === 'none') {
+			return;
+		}
+
+		const leaf = note.openIn === 'current'
+			? this.app.workspace.getLeaf(false)
+			: this.app.workspace.getLeaf(note.openIn);
+		const mode = note.viewMode === 'default' ? undefined : note.viewMode;
+		await leaf.openFile(file, { active: true, state: mode ? { mode } : undefined });
+
+		// The cursor only matters when the note is opened for editing
+		const view = leaf.view;
+		if (!(view instanceof MarkdownView) || view.getMode() !== 'source') {
+			return;
+		}
+		const editor = view.editor;
+		if (cursorOffset !== undefined) {
+			editor.setCursor(editor.offsetToPos(cursorOffset));
+		} else if (note.cursorPosition === 'end') {
+			const lastLine = editor.lastLine();
+			editor.setCursor(lastLine, editor.getLine(lastLine).length);
+		} else {
+			editor.setCursor(0, 0);
+		}
+		editor.focus();
+	}
+
+	/**
+	 * Process the templates of a note and create it, without opening it
+	 * @param note Templates of the note
+	 * @param context Note context
+	 * @returns The created file, or the existing file if the collision
+	 * policy chose it instead; undefined if creation failed or was cancelled
+	 */
+	async generateNote(note: NoteTemplate, context: TemplateContext = this.createContext()): Promise<TFile | undefined> {
+		const { template, folder, location } = note;
+		try {
+			const content = await this.getContentTemplate(note);
+			if (content === null) {
+				return undefined;
 			}
-			
-			case 'daytime': {
-				const base = parseInt(params[0]) || 10;
-				const secondsSinceMidnight = 
-					now.getHours() * 3600 + 
-					now.getMinutes() * 60 + 
-					now.getSeconds();
-				
-				if (base >= 2 && base <= 36) {
-					return secondsSinceMidnight.toString(base);
-				}
-				return secondsSinceMidnight.toString();
+
+			const templates = location === 'folder' ? [folder, template, content] : [template, content];
+			if (!(await this.prepareContext(templates, context))) {
+				return undefined;
 			}
-			
-			// Counters
-			case 'counter': {
-				if (params.length > 0) {
-					if (params[0] === 'reset') {
-						this.globalCounter = 1;
-						this.namedCounters = {};
-						return '';
-					} else {
-						const counterName = params[0];
-						if (!this.namedCounters[counterName]) {
-							this.namedCounters[counterName] = 1;
-						}
-						const value = this.namedCounters[counterName];
-						this.namedCounters[counterName]++;
-						return value.toString();
-					}
-				} else {
-					const value = this.globalCounter;
-					this.globalCounter++;
-					return value.toString();
-				}
+
+			const baseFolder = this.getBaseFolder(location, folder, context);
+			const target = await this.getAvailablePath(template, baseFolder, context, location === 'folder' ? folder : undefined);
+			if (!target) {
+				return undefined;
 			}
 
-			case 'tag': {
-				if (params.length > 0) {
-					if (params[0] === 'reset') {
-						this.tagCounter = 1;
-						return '';
-					}
-				} else {
-					const value = this.tagCounter;
-					this.tagCounter++;
+			if (target instanceof TFile) {
+				new Notice(`Using existing note: ${target.name}`);
+				context.usedExisting = true;
+				return target;
+			}
 
-					this.app.saveLocalStorage('template-filename-tag-count', this.tagCounter.toString());
+			// Templater changes the text before the cursor, so the cursor is
+			// found in the note once Templater is done
+			if (content.includes('<%') && this.canRunTemplater()) {
+				context.cursorMarker = content.includes('{cursor');
+			}
+			const file = await this.createNote(target, content, '', context);
+			new Notice(`Created note: ${file.name}`);
 
-					return ('0000'+value.toString(36).toUpperCase()).slice(-4);
-				}
+			// Only the template itself may contain Templater commands, not
+			// the text of variables like {selection} or {clipboard}
+			if (content.includes('<%')) {
+				await this.runTemplater(file);
 			}
-			
-			// System variables
-			case 'hostname': return 'device';
-			case 'username': return 'user';
-			
-			// Text formatting
-			case 'lowercase': return (params[0] || '').toLowerCase();
-			case 'uppercase': return (params[0] || '').toUpperCase();
-			case 'slugify': return this.slugify(params[0] || '');
-			
-			// Unknown variable
-			default: return `{${name}${params.length > 0 ? ':' + params.join(',') : ''}}`;
+			if (context.cursorMarker) {
+				context.cursorOffset = await this.takeCursorMarker(file);
+			}
+			return file;
+		} catch (error) {
+			// Already handled in createNote
+			return undefined;
 		}
 	}
 
 	/**
-	 * Get the full month name
-	 * @param month Month index (0-11)
-	 * @returns Full month name
+	 * Rename a note created outside the plugin, e.g. with "New note" or by
+	 * clicking an unresolved link, if it matches the automatic renaming
+	 * rules. Links to the note are updated.
+	 * @param file The new file
 	 */
-	private getMonthName(month: number): string {
-		const monthNames = [
-			'January', 'February', 'March', 'April', 'May', 'June',
-			'July', 'August', 'September', 'October', 'November', 'December'
-		];
-		return monthNames[month];
+	async autoRenameFile(file: TAbstractFile) {
+		if (this.createdPaths.delete(file.path)) {
+			return;
+		}
+		if (!this.settings.autoRename || !(file instanceof TFile) || file.extension !== 'md' || !this.matchesAutoRename(file)) {
+			return;
+		}
+		// Sync keeps the modification time of notes from other devices,
+		// where they were already renamed
+		if (Date.now() - file.stat.mtime > AUTO_RENAME_MAX_AGE) {
+			return;
+		}
+
+		const oldName = file.basename;
+		const { template } = this.getNoteTemplate(this.settings.autoRenameProfile);
+		const context = this.createContext();
+		try {
+			if (!(await this.prepareContext([template], context))) {
+				return;
+			}
+
+			// The note stays in its folder, folders in the template are relative to it
+			const baseFolder = file.parent ? file.parent.path : '';
+			// A note that already has the name it would get is not taken by
+			// itself. The values are kept in the context, so getAvailablePath
+			// generates the same name.
+			const path = this.getNotePath(this.generateFilename(template, baseFolder, context), baseFolder);
+			if (path.toLowerCase() === file.path.toLowerCase()) {
+				return;
+			}
+			const target = await this.getAvailablePath(template, baseFolder, context);
+			if (!target || target instanceof TFile) {
+				return;
+			}
+
+			const parentPath = target.substring(0, target.lastIndexOf('/'));
+			if (parentPath) {
+				await this.ensureFolder(parentPath);
+			}
+			await this.app.fileManager.renameFile(file, target);
+		} catch (error) {
+			new Notice(`Error renaming ${oldName}: ${error}`);
+			return;
+		}
+		new Notice(`Renamed ${oldName} to ${file.basename}`);
+		await this.commitCounters(context).catch(error => new Notice(`Error saving counters: ${error}`));
 	}
 
 	/**
-	 * Get the full day name
-	 * @param day Day index (0-6, starting with Sunday)
-	 * @returns Full day name
+	 * Check a new note against the automatic renaming rules
+	 * @param file The new note
+	 * @returns Whether the note should be renamed
 	 */
-	private getDayName(day: number): string {
-		const dayNames = [
-			'Sunday', 'Monday', 'Tuesday', 'Wednesday', 
-			'Thursday', 'Friday', 'Saturday'
-		];
-		return dayNames[day];
+	matchesAutoRename(file: TFile): boolean {
+		// Obsidian numbers further untitled notes: Untitled 1, Untitled 2...
+		const name = file.basename.replace(/ \d+$/, '');
+		if (this.settings.autoRenameUntitled && this.settings.untitledNames.includes(name)) {
+			return true;
+		}
+
+		const folder = file.parent ? file.parent.path : '';
+		return this.settings.autoRenameFolders.some(path => {
+			const renameFolder = normalizePath(path);
+			return renameFolder === folder || folder.startsWith(renameFolder + '/');
+		});
 	}
 
 	/**
-	 * Get the day of the year (1-366)
-	 * @param date Date object
-	 * @returns Day of year
+	 * Get the notes in a folder
+	 * @param path Folder path relative to the vault root
+	 * @param recursive Whether to include notes in subfolders
+	 * @returns The notes, or an empty list if the folder doesn't exist
 	 */
-	private getDayOfYear(date: Date): number {
-		const start = new Date(date.getFullYear(), 0, 0);
-		const diff = date.getTime() - start.getTime();
-		const oneDay = 1000 * 60 * 60 * 24;
-		return Math.floor(diff / oneDay);
+	getFolderNotes(path: string, recursive: boolean): TFile[] {
+		const folder = this.app.vault.getAbstractFileByPath(normalizePath(path || '/'));
+		if (!(folder instanceof TFolder)) {
+			return [];
+		}
+		if (!recursive) {
+			return folder.children.filter((file): file is TFile => file instanceof TFile && file.extension === 'md');
+		}
+
+		const files: TFile[] = [];
+		Vault.recurseChildren(folder, file => {
+			if (file instanceof TFile && file.extension === 'md') {
+				files.push(file);
+			}
+		});
+		return files;
 	}
 
 	/**
-	 * Get the week number of the year (1-53)
-	 * @param date Date object
-	 * @returns Week number
+	 * Get the notes found by the search pane
+	 * @returns The notes, an empty list if there is no search, or null if
+	 * the search pane can't be read
 	 */
-	private getWeekNumber(date: Date): number {
-		const d = new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()));
-		const dayNum = d.getUTCDay() || 7;
-		d.setUTCDate(d.getUTCDate() + 4 - dayNum);
-		const yearStart = new Date(Date.UTC(d.getUTCFullYear(), 0, 1));
-		return Math.ceil((((d.getTime() - yearStart.getTime()) / 86400000) + 1) / 7);
+	getSearchResults(): TFile[] | null {
+		const leaf = this.app.workspace.getLeavesOfType('search')[0];
+		return leaf ? this.readSearchResults(leaf.view) : [];
 	}
 
 	/**
-	 * Generate a UUID v4
-	 * @returns UUID string
+	 * Read the results of a search view. They are not part of the API, so
+	 * their shape is checked in case a new version of Obsidian changes it.
+	 * @param view The search view
+	 * @returns The notes found, or null if the results can't be read
 	 */
-	private generateUUID(): string {
-		return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, function(c) {
+	private readSearchResults(view: unknown): TFile[] | null {
+		const dom: unknown = (view as { dom?: unknown }).dom;
+		const results: unknown = dom && typeof dom === 'object' ? (dom as { resultDomLookup?: unknown }).resultDomLookup : undefined;
+		if (!(results instanceof Map)) {
+			return null;
+		}
+		return Array.from(results.keys() as Iterable<unknown>)
+			.filter((file): file is TFile => file instanceof TFile && file.extension === 'md');
+	}
+
+	/**
+	 * Get the date of an existing note
+	 * @param file The note
+	 * @param source Which date to use
+	 * @param key Frontmatter property, used when source is 'frontmatter'
+	 * @returns The date; the creation time if the property is missing or not a date
+	 */
+	getNoteDate(file: TFile, source: BulkDateSource, key: string): Date {
+		if (source === 'mtime') {
+			return new Date(file.stat.mtime);
+		}
+		if (source === 'frontmatter') {
+			const date = moment(this.getFrontmatterValue(file, key), moment.ISO_8601);
+			if (date.isValid()) {
+				return date.toDate();
+			}
+		}
+		return new Date(file.stat.ctime);
+	}
+
+	/**
+	 * Work out new names for existing notes without renaming them. Date and
+	 * time variables refer to each note's own date, {title} to its current
+	 * name and {fm:key} to its frontmatter. Notes stay in their folder.
+	 * @param files Notes to rename
+	 * @param template Filename template
+	 * @param dateSource Which date of a note to use
+	 * @param frontmatterKey Frontmatter property, used when dateSource is 'frontmatter'
+	 * @param context Context with the prompt answers, shared by all notes so
+	 * that counters continue from one note to the next. Counter values that
+	 * only lead to taken names are skipped; notes whose name stays taken
+	 * don't use up counter values.
+	 * @returns One entry per note, oldest first
+	 */
+	planBulkRename(files: TFile[], template: string, dateSource: BulkDateSource, frontmatterKey: string,
+		context: TemplateContext): BulkRenameEntry[] {
+		const dated = files
+			.map(file => ({ file, date: this.getNoteDate(file, dateSource, frontmatterKey) }))
+			.sort((a, b) => a.date.getTime() - b.date.getTime() || a.file.path.localeCompare(b.file.path));
+		this.getCounters(context);
+		const targets = new Set<string>();
+
+		return dated.map(({ file, date }): BulkRenameEntry => {
+			const baseFolder = file.parent ? file.parent.path : '';
+			const isTaken = (path: string) => {
+				const existing = this.findExisting(path);
+				return path !== file.path && ((!!existing && existing !== file) || targets.has(path.toLowerCase()));
+			};
+
+			// Counters are taken on a copy and only kept for a note that ends
+			// up with the new name. A name can be taken because of its counter
+			// values, so the note is tried again with the next ones.
+			let counters = context.counters as CounterState;
+			let counterResets = context.counterResets;
+			let firstPath = '';
+			let lastPath = '';
+			const maxAttempts = this.app.vault.getAllLoadedFiles().length + targets.size + 1;
+			for (let attempt = 0; attempt < maxAttempts; attempt++) {
+				const noteContext: TemplateContext = {
+					values: Object.assign({}, context.values),
+					counters: this.copyCounters(counters),
+					counterBase: context.counterBase,
+					counterResets: Object.assign({}, counterResets),
+					sourceFile: file,
+					title: file.basename,
+					clipboard: context.clipboard,
+					date
+				};
+				const newPath = this.getNotePath(this.generateFilename(template, baseFolder, noteContext), baseFolder);
+
+				if (!isTaken(newPath)) {
+					context.counters = noteContext.counters;
+					context.counterResets = noteContext.counterResets;
+					if (newPath === file.path) {
+						return { file, newPath, status: 'unchanged' };
+					}
+					targets.add(newPath.toLowerCase());
+					return { file, newPath, status: 'rename' };
+				}
+				if (newPath === lastPath) {
+					// The counters don't change the name
+					break;
+				}
+				firstPath = firstPath || newPath;
+				lastPath = newPath;
+				counters = noteContext.counters as CounterState;
+				counterResets = noteContext.counterResets;
+			}
+			return { file, newPath: firstPath, status: 'taken' };
+		});
+	}
+
+	/**
+	 * Rename notes as planned by planBulkRename, updating links to them
+	 * @param entries The planned renames
+	 * @param context The context the plan was made with
+	 * @returns Number of renamed notes
+	 */
+	async applyBulkRename(entries: BulkRenameEntry[], context: TemplateContext): Promise<number> {
+		let renamed = 0;
+		for (const entry of entries) {
+			// Skip names that were taken since the plan was made
+			const existing = this.findExisting(entry.newPath);
+			if (entry.status !== 'rename' || (existing && existing !== entry.file)) {
+				continue;
+			}
+			try {
+				const parentPath = entry.newPath.substring(0, entry.newPath.lastIndexOf('/'));
+				if (parentPath) {
+					await this.ensureFolder(parentPath);
+				}
+				await this.app.fileManager.renameFile(entry.file, entry.newPath);
+				renamed++;
+			} catch (error) {
+				new Notice(`Error renaming ${entry.file.path}: ${error}`);
+			}
+		}
+		await this.commitCounters(context).catch(error => new Notice(`Error saving counters: ${error}`));
+		return renamed;
+	}
+
+	/**
+	 * Get the content template of a note: the text of its template file if
+	 * it has one, or else its content
+	 * @param note Templates of the note
+	 * @returns The content template, or null if the template file is missing
+	 */
+	async getContentTemplate(note: NoteTemplate): Promise<string | null> {
+		if (!note.contentFile) {
+			return note.content;
+		}
+
+		const path = normalizePath(note.contentFile);
+		const file = this.app.vault.getAbstractFileByPath(path) || this.app.vault.getAbstractFileByPath(path + '.md');
+		if (!(file instanceof TFile)) {
+			new Notice(`Template file not found: ${note.contentFile}`);
+			return null;
+		}
+		return this.convertCoreTemplate(await this.app.vault.cachedRead(file));
+	}
+
+	/**
+	 * Rewrite the {{date}}, {{time}} and {{title}} placeholders of the core
+	 * Templates plugin as variables, so that its templates can be reused
+	 * @param text Text of a template file
+	 * @returns The text with the placeholders replaced
+	 */
+	convertCoreTemplate(text: string): string {
+		const options = this.getCoreTemplatesOptions();
+		return text.replace(/\{\{\s*(date|time|title)\s*(?::([^}]*))?\}\}/gi, (match, name: string, format?: string) => {
+			if (name.toLowerCase() === 'title') {
+				return '{title}';
+			}
+			const defaultFormat = name.toLowerCase() === 'date'
+				? options.dateFormat || 'YYYY-MM-DD'
+				: options.timeFormat || 'HH:mm';
+			return `{date:"${(format || defaultFormat).replace(/["\\]/g, '\\$&')}"}`;
+		});
+	}
+
+	/**
+	 * Get the options of the core Templates plugin
+	 * @returns Its options, or an empty object if the plugin is disabled
+	 */
+	getCoreTemplatesOptions(): CoreTemplatesOptions {
+		const internalPlugins = (this.app as AppWithPlugins).internalPlugins;
+		const templates = internalPlugins ? internalPlugins.getEnabledPluginById('templates') : null;
+		return templates && templates.options ? templates.options : {};
+	}
+
+	/**
+	 * Get the Templater plugin
+	 * @returns The plugin, or undefined if it isn't installed and enabled
+	 */
+	getTemplater(): TemplaterPlugin | undefined {
+		const plugins = (this.app as AppWithPlugins).plugins;
+		return plugins ? (plugins.getPlugin('templater-obsidian') as TemplaterPlugin | null) || undefined : undefined;
+	}
+
+	/**
+	 * Get the template folders of the Templates and Templater plugins
+	 * @returns Normalized folder paths
+	 */
+	getTemplateFolders(): string[] {
+		const templater = this.getTemplater();
+		return [this.getCoreTemplatesOptions().folder, templater?.settings?.templates_folder]
+			.filter((folder): folder is string => !!folder)
+			.map(folder => normalizePath(folder));
+	}
+
+	/**
+	 * Check whether new notes are handed to Templater by this plugin, which
+	 * is the case unless Templater isn't available or already runs on every
+	 * new file by itself
+	 * @returns True if runTemplater runs Templater
+	 */
+	canRunTemplater(): boolean {
+		const templater = this.getTemplater();
+		return !!templater && !!templater.templater && !templater.settings?.trigger_on_file_creation;
+	}
+
+	/**
+	 * Hand a new note to Templater to run its commands
+	 * @param file The new note
+	 */
+	async runTemplater(file: TFile) {
+		const templater = this.getTemplater();
+		if (!templater || !templater.templater || !this.canRunTemplater()) {
+			return;
+		}
+
+		try {
+			await templater.templater.overwrite_file_commands(file);
+		} catch (error) {
+			new Notice(`Templater failed on ${file.name}`);
+		}
+	}
+
+	/**
+	 * Remove the {cursor} marker left in a note for Templater
+	 * @param file The note
+	 * @returns Offset of the marker, or undefined if it is gone
+	 */
+	private async takeCursorMarker(file: TFile): Promise<number | undefined> {
+		let offset: number | undefined;
+		await this.app.vault.process(file, data => {
+			const index = data.indexOf(CURSOR_MARKER);
+			if (index === -1) {
+				return data;
+			}
+			offset = index;
+			return data.substring(0, index) + data.substring(index + CURSOR_MARKER.length);
+		});
+		return offset;
+	}
+
+	/**
+	 * Move the selection of an editor into a new note, named with the
+	 * template of the profile chosen for extracting, and replace it with
+	 * a link or embed to that note
+	 * @param editor Editor with a selection
+	 * @param sourceFile File shown in the editor
+	 */
+	async extractSelection(editor: Editor, sourceFile: TFile | null) {
+		// The selection is inserted through a variable, so that its text is
+		// never processed as a template itself
+		const note = Object.assign({}, this.getNoteTemplate(this.settings.extractProfile), { content: '{selection}', contentFile: '' });
+
+		// Remember the selection, prompts may take the focus away
+		const from = editor.getCursor('from');
+		const to = editor.getCursor('to');
+		const context = this.createContext();
+		context.sourceFile = sourceFile;
+		context.selection = editor.getSelection();
+
+		const file = await this.generateNote(note, context);
+		if (!file) {
+			return;
+		}
+
+		// The note may have changed while a prompt was open
+		if (editor.getRange(from, to) !== context.selection) {
+			new Notice('The selection changed, so it was left in place');
+			return;
+		}
+
+		// The selection is only in a note that was created for it, so add it
+		// to an existing note before removing it here
+		if (context.usedExisting) {
+			await this.app.vault.append(file, '\n\n' + context.selection);
+		}
+
+		const link = this.app.fileManager.generateMarkdownLink(file, sourceFile ? sourceFile.path : '');
+		editor.replaceRange(this.settings.extractLinkStyle === 'embed' ? '!' + link : link, from, to);
+	}
+
+	/**
+	 * Generate a note path from a template, applying the collision policy
+	 * if a file with that path already exists
+	 * @param template The filename template
+	 * @param baseFolder The folder to create the note in
+	 * @param context Note context
+	 * @param folder The folder template the base folder was generated from,
+	 * so random values in it are regenerated too
+	 * @returns A free path, the existing file to open instead, or null if
+	 * the user cancelled
+	 */
+	async getAvailablePath(template: string, baseFolder: string, context: TemplateContext, folder?: string): Promise<string | TFile | null> {
+		let path = this.getNotePath(this.generateFilename(template, baseFolder, context), baseFolder);
+		if (!this.findExisting(path)) {
+			return path;
+		}
+
+		let policy = this.settings.collisionPolicy;
+		if (policy === 'ask') {
+			const choice = await new CollisionModal(this.app, path).choose();
+			if (!choice) {
+				return null;
+			}
+			policy = choice;
+		}
+
+		if (policy === 'open') {
+			const existing = this.findExisting(path);
+			if (existing instanceof TFile) {
+				return existing;
+			}
+		}
+
+		if (policy === 'regenerate') {
+			for (let attempt = 0; attempt < MAX_REGENERATE_ATTEMPTS; attempt++) {
+				const randomKeys = Object.keys(context.values)
+					.filter(key => this.usesRandomValues(key.split(':')[0]));
+				if (randomKeys.length === 0) {
+					// Nothing to regenerate, the path would stay the same
+					break;
+				}
+				randomKeys.forEach(key => delete context.values[key]);
+
+				if (folder !== undefined) {
+					baseFolder = this.getBaseFolder('folder', folder, context);
+				}
+				path = this.getNotePath(this.generateFilename(template, baseFolder, context), baseFolder);
+				if (!this.findExisting(path)) {
+					return path;
+				}
+			}
+		}
+
+		// Append an increasing number until the path is free
+		const basePath = path.replace(/\.md$/, '');
+		for (let number = 2; ; number++) {
+			const candidate = this.addSuffix(basePath, policy === 'dash' ? `-${number}` : ` (${number})`);
+			if (!this.findExisting(candidate)) {
+				return candidate;
+			}
+		}
+	}
+
+	/**
+	 * Find the file or folder at a path, ignoring case: Windows and macOS
+	 * don't allow names that only differ in case
+	 * @param path Path relative to the vault root
+	 * @returns The file or folder, or null if the path is free
+	 */
+	findExisting(path: string): TAbstractFile | null {
+		const existing = this.app.vault.getAbstractFileByPath(path);
+		if (existing) {
+			return existing;
+		}
+		const lowerPath = path.toLowerCase();
+		return this.app.vault.getAllLoadedFiles().find(file => file.path.toLowerCase() === lowerPath) || null;
+	}
+
+	/**
+	 * Append a suffix to the name of a note, shortening the name if needed
+	 * to stay within the maximum filename length
+	 * @param basePath Path of the note without the .md extension
+	 * @param suffix Suffix, e.g. " (2)"
+	 * @returns Path of the note with the suffix and the extension
+	 */
+	private addSuffix(basePath: string, suffix: string): string {
+		const maxLength = this.settings.maxFilenameLength;
+		const slash = basePath.lastIndexOf('/');
+		let name = basePath.substring(slash + 1);
+		const limit = maxLength - 3 - suffix.length;
+		const chars = Array.from(name);
+		if (maxLength > 0 && chars.length > limit) {
+			name = chars.slice(0, Math.max(limit, 1)).join('').replace(/[. ]+$/, '');
+		}
+		return basePath.substring(0, slash + 1) + name + suffix + '.md';
+	}
+
+	/**
+	 * Process a filename template, first continuing counters from
+	 * existing notes if enabled, and make the result safe to use as a
+	 * filename. Any changes are recorded in the context.
+	 * @param template The filename template
+	 * @param baseFolder The folder the note is created in
+	 * @param context Note context
+	 * @returns The processed filename
+	 */
+	generateFilename(template: string, baseFolder: string, context: TemplateContext): string {
+		this.inferCounters(template, baseFolder, context);
+		const filename = this.processTemplate(template, context);
+		const { path, changes } = this.sanitizePath(filename);
+		context.sanitized = changes.length > 0 ? { from: filename, changes } : undefined;
+		return path;
+	}
+
+	/**
+	 * Make a generated path safe to use on all platforms: replace characters
+	 * that are not allowed, remove dots and spaces at the end of names, avoid
+	 * names reserved on Windows and shorten names that are too long
+	 * @param path The generated path, with folders separated by slashes
+	 * @param isFolder Whether the path is a folder rather than a note
+	 * @returns The safe path without the .md extension, and a description of
+	 * every change
+	 */
+	sanitizePath(path: string, isFolder = false): { path: string, changes: string[] } {
+		const replacement = this.settings.filenameReplacement;
+		const maxLength = this.settings.maxFilenameLength;
+		const changes: string[] = [];
+		const segments = (isFolder ? path : path.replace(/\.md$/i, '')).split('/');
+
+		const sanitized = segments.map((segment, index) => {
+			if (!segment) {
+				return segment;
+			}
+
+			// Characters that are not allowed, including control characters
+			const illegal = new Set<string>();
+			segment = Array.from(segment).map(char => {
+				if (ILLEGAL_FILENAME_CHARACTERS.includes(char) || char.charCodeAt(0) < 32) {
+					illegal.add(JSON.stringify(char).slice(1, -1));
+					return replacement;
+				}
+				return char;
+			}).join('');
+			if (illegal.size > 0) {
+				const characters = Array.from(illegal).map(char => `"${char}"`).join(' ');
+				changes.push(`Replaced ${characters} with "${replacement}": not allowed on Windows and Android`);
+			}
+
+			// Dots and spaces at the end are dropped by Windows
+			const trimmed = segment.replace(/[. ]+$/, '');
+			if (trimmed !== segment) {
+				changes.push(`Removed dots and spaces at the end of "${segment}": not allowed on Windows`);
+				segment = trimmed;
+			}
+
+			if (RESERVED_FILENAMES.test(segment)) {
+				const prefix = replacement || '_';
+				changes.push(`Added "${prefix}" before "${segment}": reserved name on Windows`);
+				segment = prefix + segment;
+			}
+
+			// The extension counts towards the length of the filename
+			const limit = !isFolder && index === segments.length - 1 ? maxLength - 3 : maxLength;
+			const chars = Array.from(segment);
+			if (maxLength > 0 && chars.length > limit) {
+				segment = chars.slice(0, Math.max(limit, 1)).join('').replace(/[. ]+$/, '');
+				changes.push(`Shortened "${segment}…" to ${maxLength} characters: names that long break on some platforms and in sync`);
+			}
+
+			return segment;
+		});
+
+		return { path: sanitized.join('/'), changes };
+	}
+
+	/**
+	 * Continue {counter:name} and {tag} from the highest value used by
+	 * existing notes whose path has the same shape as the template
+	 * @param template The filename template
+	 * @param baseFolder The folder the note is created in
+	 * @param context Note context
+	 */
+	private inferCounters(template: string, baseFolder: string, context: TemplateContext) {
+		const scope = this.settings.counterInference;
+		if (scope === 'off') {
+			return;
+		}
+
+		// Build a pattern that captures the counters and matches anything
+		// within one folder for all other variables. Filters may change the
+		// case and length of a tag, and pad counters with zeros.
+		const groups: Array<{ type: 'counter' | 'tag', name: string }> = [];
+		let pattern = '';
+		for (const token of this.expandAliases(this.tokenizeTemplate(template))) {
+			const params = (token.params || []).map(param => this.processTokens(param, context));
+			const filtered = (token.filters || []).length > 0;
+			if (token.type === 'text') {
+				pattern += this.escapeRegExp(token.value || '');
+			} else if (params[0] === 'reset' && (token.name === 'counter' || token.name === 'tag')) {
+				// Resets don't produce any output
+			} else if (token.name === 'counter' && params.length > 0) {
+				groups.push({ type: 'counter', name: params[0] });
+				pattern += '(\\d+)';
+			} else if (token.name === 'tag') {
+				groups.push({ type: 'tag', name: '' });
+				pattern += filtered ? '([0-9A-Za-z]+)' : '([0-9A-Za-z]{4})';
+			} else {
+				pattern += '[^/]*?';
+			}
+		}
+		if (groups.length === 0) {
+			return;
+		}
+
+		// Scanning the vault on every keystroke of a preview, or for every
+		// note of a bulk rename, is too slow, so the results are kept until
+		// notes change
+		const folder = baseFolder.trim().replace(/^\/+|\/+$/g, '');
+		const key = [scope, scope === 'folder' ? folder : '', pattern].join('\n');
+		let found = this.inferredCounters.get(key);
+		if (!found) {
+			found = this.findCounterValues(pattern, groups, scope, folder);
+			this.inferredCounters.set(key, found);
+		}
+
+		// The base is raised too, so that numbers found in existing notes
+		// are not taken for increments of this note, see commitCounters
+		const counters = this.getCounters(context);
+		const base = context.counterBase as CounterState;
+		groups.forEach((group, index) => {
+			const next = (found as number[])[index];
+			if (!next) {
+				return;
+			}
+			if (group.type === 'tag') {
+				counters.tag = Math.max(counters.tag, next);
+				base.tag = Math.max(base.tag, next);
+			} else {
+				counters.named[group.name] = Math.max(counters.named[group.name] || 1, next);
+				base.named[group.name] = Math.max(base.named[group.name] || 1, next);
+			}
+		});
+	}
+
+	/**
+	 * Find the highest counter values used by existing notes
+	 * @param pattern Pattern of note paths, with one group per counter
+	 * @param groups The counter of each group
+	 * @param scope Where to look for notes
+	 * @param folder The folder the note is created in, used for the folder scope
+	 * @returns The value after the highest one found for each group, or 0
+	 * if none was found
+	 */
+	private findCounterValues(pattern: string, groups: Array<{ type: 'counter' | 'tag', name: string }>,
+		scope: CounterInference, folder: string): number[] {
+		const matcher = scope === 'vault'
+			? new RegExp(`(?:^|/)${pattern}$`)
+			: new RegExp(`^${pattern}$`);
+		const found = groups.map(() => 0);
+
+		for (const file of this.app.vault.getMarkdownFiles()) {
+			let path = file.path.replace(/\.md$/, '');
+			if (scope === 'folder' && folder) {
+				if (!path.startsWith(folder + '/')) {
+					continue;
+				}
+				path = path.substring(folder.length + 1);
+			}
+
+			const match = matcher.exec(path);
+			if (!match) {
+				continue;
+			}
+
+			groups.forEach((group, index) => {
+				const value = parseInt(match[index + 1], group.type === 'tag' ? 36 : 10);
+				if (!isNaN(value)) {
+					found[index] = Math.max(found[index], value + 1);
+				}
+			});
+		}
+		return found;
+	}
+
+	/**
+	 * Escape text for use in a regular expression
+	 * @param text Text to escape
+	 * @returns Escaped text
+	 */
+	private escapeRegExp(text: string): string {
+		return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+	}
+
+	/**
+	 * Get the folder new notes are created in
+	 * @param location Where to create the note
+	 * @param folder The folder template, used when location is 'folder'
+	 * @param context Note context
+	 * @returns Folder path relative to the vault root (empty for the root)
+	 */
+	getBaseFolder(location: NoteLocation, folder: string, context: TemplateContext): string {
+		const activeFile = this.app.workspace.getActiveFile();
+
+		switch (location) {
+			case 'current':
+				return activeFile && activeFile.parent ? activeFile.parent.path : '';
+			case 'default':
+				return this.app.fileManager.getNewFileParent(activeFile ? activeFile.path : '').path;
+			default: {
+				const generated = this.processTemplate(folder, context);
+				const { path, changes } = this.sanitizePath(generated, true);
+				context.sanitizedFolder = changes.length > 0 ? { from: generated, changes } : undefined;
+				return path;
+			}
+		}
+	}
+
+	/**
+	 * Create the context for a new note from the current workspace
+	 * @param dryRun Whether to evaluate without side effects
+	 * @returns Note context
+	 */
+	createContext(dryRun = false): TemplateContext {
+		const editor = this.getActiveEditor();
+		return {
+			values: {},
+			dryRun,
+			sourceFile: this.app.workspace.getActiveFile(),
+			selection: editor ? editor.getSelection() : ''
+		};
+	}
+
+	/**
+	 * Get the editor of the active markdown view
+	 * @returns The editor, or null if no markdown view is active
+	 */
+	getActiveEditor(): Editor | null {
+		const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+		return view ? view.editor : null;
+	}
+
+	/**
+	 * Gather everything a note's templates need that can't be resolved
+	 * synchronously: the clipboard and the answers to prompts
+	 * @param templates The templates of the note
+	 * @param context Note context
+	 * @returns False if the user cancelled a prompt
+	 */
+	async prepareContext(templates: string[], context: TemplateContext): Promise<boolean> {
+		// Aliases may contain prompts too
+		templates = templates.concat(this.getAliasTemplates(templates));
+		if (templates.some(template => template.includes('{clipboard'))) {
+			try {
+				context.clipboard = await navigator.clipboard.readText();
+			} catch (error) {
+				context.clipboard = '';
+			}
+		}
+		return this.askPrompts(templates, context);
+	}
+
+	/**
+	 * Process a template string to create a filename or note content
+	 *
+	 * Counter changes are kept in the context until the note is created.
+	 * Without a context, they are committed right away.
+	 * @param template The template string
+	 * @param context Note context, shared by all templates of the same note
+	 * @returns The processed template with all variables replaced
+	 */
+	processTemplate(template: string, context?: TemplateContext): string {
+		if (!context) {
+			const standalone = this.createContext();
+			const result = this.processTemplate(template, standalone);
+			this.commitCounters(standalone).catch(error => new Notice(`Error saving counters: ${error}`));
+			return result;
+		}
+
+		return this.processTokens(this.tokenizeTemplate(template), context);
+	}
+
+	/**
+	 * Process the content template of a note, recording where its first
+	 * {cursor} marker ends up in the context
+	 * @param content The content template
+	 * @param context Note context
+	 * @returns The processed content, without the marker
+	 */
+	processContent(content: string, context: TemplateContext): string {
+		const tokens = this.tokenizeTemplate(content);
+		const cursorIndex = tokens.findIndex(token => token.type === 'variable' && token.name === 'cursor');
+		if (cursorIndex === -1) {
+			return this.processTokens(tokens, context);
+		}
+
+		const before = this.processTokens(tokens.slice(0, cursorIndex), context);
+		const after = this.processTokens(tokens.slice(cursorIndex + 1), context);
+		if (context.cursorMarker) {
+			return before + CURSOR_MARKER + after;
+		}
+		context.cursorOffset = before.length;
+		return before + after;
+	}
+
+	/**
+	 * Process parsed template tokens
+	 * @param tokens The tokens
+	 * @param context Note context
+	 * @returns The processed text with all variables replaced
+	 */
+	private processTokens(tokens: TemplateToken[], context: TemplateContext): string {
+		let result = '';
+
+		// Process each token, resolving nested variables in parameters first
+		for (const token of tokens) {
+			if (token.type === 'text' && token.value !== undefined) {
+				result += token.value;
+			} else if (token.type === 'variable' && token.name !== undefined && !this.variables.has(token.name) && !this.getUserVariable(token.name)) {
+				// Unknown variables are kept exactly as written, so that e.g.
+				// JSON, Templater code or regular expressions in a note survive
+				result += token.source || '';
+			} else if (token.type === 'variable' && token.name !== undefined) {
+				const params = (token.params || []).map(param => this.processTokens(param, context));
+				let value = this.resolveVariable(token.name, params, context);
+				for (const filter of token.filters || []) {
+					const filterParams = filter.params.map(param => this.processTokens(param, context));
+					value = this.applyFilter(filter.name, value, filterParams);
+				}
+				result += value;
+			}
+		}
+
+		return result;
+	}
+
+	/**
+	 * Resolve a variable once per note, so that e.g. a counter or random
+	 * value used in both the filename and the content has the same value.
+	 * Unknown variables are kept as they are by processTokens.
+	 * @param name Variable name
+	 * @param params Variable parameters
+	 * @param context Note context
+	 * @returns The resolved value
+	 */
+	private resolveVariable(name: string, params: string[], context: TemplateContext): string {
+		if ((name === 'filename' || name === 'title') && context.title !== undefined) {
+			return context.title;
+		}
+
+		const key = this.getVariableKey(name, params);
+		if (!(key in context.values)) {
+			const definition = this.variables.get(name);
+			const user = definition ? undefined : this.getUserVariable(name);
+			if (definition) {
+				context.values[key] = definition.resolve(params, context);
+			} else {
+				context.values[key] = user ? this.resolveUserVariable(user, params, context) : '';
+			}
+		}
+		return context.values[key];
+	}
+
+	/**
+	 * Get the key a resolved variable is stored under in the note context
+	 * @param name Variable name
+	 * @param params Variable parameters
+	 * @returns Key, e.g. counter:name
+	 */
+	private getVariableKey(name: string, params: string[]): string {
+		return params.length > 0 ? `${name}:${params.join(',')}` : name;
+	}
+
+	/**
+	 * Ask the user for the values of all {prompt} and {select} variables
+	 * in the templates of a note, so that they can be processed afterwards
+	 * @param templates The templates of the note
+	 * @param context Note context, receives the answers
+	 * @returns False if the user cancelled a prompt
+	 */
+	async askPrompts(templates: string[], context: TemplateContext): Promise<boolean> {
+		for (const template of templates) {
+			if (!(await this.askPromptTokens(this.tokenizeTemplate(template), context))) {
+				return false;
+			}
+		}
+		return true;
+	}
+
+	/**
+	 * Ask for the prompt variables in parsed template tokens, innermost first
+	 * @param tokens The tokens
+	 * @param context Note context, receives the answers
+	 * @returns False if the user cancelled a prompt
+	 */
+	private async askPromptTokens(tokens: TemplateToken[], context: TemplateContext): Promise<boolean> {
+		for (const token of tokens) {
+			if (token.type !== 'variable' || token.name === undefined) {
+				continue;
+			}
+
+			// Prompts nested in parameters come first, e.g. {slugify:{prompt:Title}}
+			const nested = (token.params || []).concat(...(token.filters || []).map(filter => filter.params));
+			for (const param of nested) {
+				if (!(await this.askPromptTokens(param, context))) {
+					return false;
+				}
+			}
+
+			if (token.name !== 'prompt' && token.name !== 'select') {
+				continue;
+			}
+			const params = (token.params || []).map(param => this.processTokens(param, context));
+			const key = this.getVariableKey(token.name, params);
+			if (key in context.values) {
+				continue;
+			}
+
+			const label = params[0] || 'Value';
+			const answer = token.name === 'prompt'
+				? await new PromptModal(this.app, label, params[1] || '').ask()
+				: await new SelectModal(this.app, label, this.getSelectOptions(params)).ask();
+			if (answer === null) {
+				return false;
+			}
+			context.values[key] = answer;
+		}
+		return true;
+	}
+
+	/**
+	 * Get the options of a {select} variable, separated by | or commas
+	 * @param params Variable parameters, starting with the label
+	 * @returns Options
+	 */
+	private getSelectOptions(params: string[]): string[] {
+		return params.slice(1).join('|').split('|')
+			.map(option => option.trim())
+			.filter(option => option.length > 0);
+	}
+
+	/**
+	 * Get the counters of a note, starting from the saved counters
+	 * @param context Note context
+	 * @returns Counter state that variables of this note may change
+	 */
+	private getCounters(context: TemplateContext): CounterState {
+		if (!context.counters) {
+			context.counters = this.copyCounters(this.settings.counters);
+			context.counterBase = this.copyCounters(this.settings.counters);
+			context.counterResets = { counter: false, tag: false };
+		}
+		return context.counters;
+	}
+
+	/**
+	 * Copy counter values
+	 * @param counters The counter values
+	 * @returns A copy that can be changed independently
+	 */
+	private copyCounters(counters: CounterState): CounterState {
+		return {
+			global: counters.global,
+			tag: counters.tag,
+			named: Object.assign({}, counters.named)
+		};
+	}
+
+	/**
+	 * Save the counter changes of a note, unless it was a dry run
+	 *
+	 * Other notes may have been created while this one waited for a prompt,
+	 * so the counters this note used are advanced from their current values
+	 * instead of being overwritten with what this note started from.
+	 * @param context Note context
+	 */
+	async commitCounters(context: TemplateContext) {
+		if (context.dryRun || !context.counters) {
+			return;
+		}
+		const next = context.counters;
+		const base = context.counterBase || next;
+		const resets = context.counterResets || { counter: false, tag: false };
+		const saved = this.settings.counters;
+		// Counters this note didn't use keep their current value
+		const advance = (current: number, start: number, end: number) => end === start ? current : Math.max(current, start) + end - start;
+
+		const named: Record<string, number> = resets.counter ? {} : Object.assign({}, saved.named);
+		for (const name of Object.keys(next.named)) {
+			if (!resets.counter && next.named[name] === base.named[name]) {
+				continue;
+			}
+			named[name] = resets.counter
+				? next.named[name]
+				: advance(named[name] || 1, base.named[name] || 1, next.named[name]);
+		}
+		this.settings.counters = {
+			global: resets.counter ? next.global : advance(saved.global, base.global, next.global),
+			tag: resets.tag ? next.tag : advance(saved.tag, base.tag, next.tag),
+			named
+		};
+
+		context.counters = undefined;
+		context.counterBase = undefined;
+		context.counterResets = undefined;
+		await this.saveSettings();
+	}
+
+	/**
+	 * Tokenize a template string into text and variable tokens
+	 *
+	 * Variables may be nested inside parameters, e.g. {slugify:{MMMM} review},
+	 * and followed by filters, e.g. {MMMM|lower|truncate:3}. A | only starts a
+	 * filter if a known filter name follows it, and never in the parameters
+	 * of {select}, where it separates the options.
+	 * Parameters are separated by commas, and a parameter wrapped in double
+	 * quotes is taken literally. Inside a variable, a backslash escapes the
+	 * next character; elsewhere only \{ and \} are escapes. Braces that
+	 * don't form a complete variable are kept as literal text.
+	 * @param template The template string
+	 * @returns Array of tokens
+	 */
+	private tokenizeTemplate(template: string): TemplateToken[] {
+		const tokens: TemplateToken[] = [];
+		let text = '';
+		let textStart = 0;
+		let pos = 0;
+
+		while (pos < template.length) {
+			const char = template[pos];
+
+			// Escaped brace
+			if (char === '\\' && (template[pos + 1] === '{' || template[pos + 1] === '}')) {
+				text += template[pos + 1];
+				pos += 2;
+				continue;
+			}
+
+			// Variable in curly braces
+			if (char === '{') {
+				const variable = this.parseVariable(template, pos);
+				if (variable) {
+					if (text) {
+						tokens.push({ type: 'text', value: text, start: textStart, end: pos });
+						text = '';
+					}
+					tokens.push(variable.token);
+					pos = variable.end;
+					textStart = pos;
+					continue;
+				}
+			}
+
+			text += char;
+			pos++;
+		}
+
+		if (text) {
+			tokens.push({ type: 'text', value: text, start: textStart, end: pos });
+		}
+
+		return tokens;
+	}
+
+	/**
+	 * Parse a variable starting at an opening brace
+	 * @param template The template string
+	 * @param start Position of the opening brace
+	 * @returns The variable token and the position after its closing brace,
+	 * or null if the brace doesn't start a complete variable
+	 */
+	private parseVariable(template: string, start: number): { token: TemplateToken, end: number } | null {
+		let pos = start + 1;
+		let name = '';
+
+		// Variable name, up to the parameters, filters or the closing brace
+		while (pos < template.length && template[pos] !== ':' && template[pos] !== '}' && !this.isFilterStart(template, pos)) {
+			if (template[pos] === '{') {
+				return null;
+			}
+			name += template[pos];
+			pos++;
+		}
+		if (pos >= template.length) {
+			return null;
+		}
+
+		// Comma separated parameters. The options of {select} are separated
+		// by |, so they can't be followed by filters, e.g. {select:Case,upper|lower}
+		let params: TemplateToken[][] = [];
+		if (template[pos] === ':') {
+			const parsed = this.parseParams(template, pos + 1, name !== 'select');
+			if (!parsed) {
+				return null;
+			}
+			params = parsed.params;
+			pos = parsed.end;
+		}
+
+		// Filters, each with its own parameters
+		const filters: TemplateFilter[] = [];
+		while (this.isFilterStart(template, pos)) {
+			pos++;
+			let filterName = '';
+			while (template[pos] !== ':' && template[pos] !== '|' && template[pos] !== '}') {
+				filterName += template[pos];
+				pos++;
+			}
+
+			let filterParams: TemplateToken[][] = [];
+			if (template[pos] === ':') {
+				const parsed = this.parseParams(template, pos + 1);
+				if (!parsed) {
+					return null;
+				}
+				filterParams = parsed.params;
+				pos = parsed.end;
+			}
+			filters.push({ name: filterName, params: filterParams });
+		}
+		if (template[pos] !== '}') {
+			return null;
+		}
+
+		const source = template.substring(start, pos + 1);
+		return { token: { type: 'variable', name, params, filters, start, end: pos + 1, source }, end: pos + 1 };
+	}
+
+	/**
+	 * Check a template for mistakes that processing silently ignores:
+	 * unknown variables, braces that don't form a variable, and invalid
+	 * parameters
+	 * @param template The template string
+	 * @param content Whether the template is note content, where variables
+	 * like {title} that depend on the note's name can be used
+	 * @returns The mistakes found, in order of position
+	 */
+	validateTemplate(template: string, content = false): TemplateIssue[] {
+		const issues: TemplateIssue[] = [];
+		for (const token of this.tokenizeTemplate(template)) {
+			if (token.type === 'text') {
+				this.findStrayBraces(template, token.start || 0, token.end || 0, issues);
+			} else {
+				this.validateVariable(token, issues, content);
+			}
+		}
+		return issues.sort((a, b) => a.start - b.start);
+	}
+
+	/**
+	 * Report braces in a piece of literal text, which are left over from
+	 * variables that were never closed or opened
+	 * @param template The template string
+	 * @param start Position of the text in the template
+	 * @param end Position after the end of the text
+	 * @param issues Receives the mistakes found
+	 */
+	private findStrayBraces(template: string, start: number, end: number, issues: TemplateIssue[]) {
+		for (let pos = start; pos < end; pos++) {
+			const char = template[pos];
+			if (char === '\\' && (template[pos + 1] === '{' || template[pos + 1] === '}')) {
+				pos++;
+			} else if (char === '{') {
+				issues.push({ start: pos, end: pos + 1, message: 'This { is never closed. Use \\{ for a literal brace.' });
+			} else if (char === '}') {
+				issues.push({ start: pos, end: pos + 1, message: 'This } closes nothing. Use \\} for a literal brace.' });
+			}
+		}
+	}
+
+	/**
+	 * Check the name, parameters and filters of a variable, and the
+	 * variables nested in its parameters
+	 * @param token Variable token
+	 * @param issues Receives the mistakes found
+	 * @param content Whether the variable is in note content
+	 */
+	private validateVariable(token: TemplateToken, issues: TemplateIssue[], content: boolean) {
+		const name = token.name || '';
+		const start = token.start || 0;
+		const end = token.end || start;
+		const report = (message: string) => issues.push({ start, end, message });
+
+		// Parameters that contain variables are only known when processing
+		const literal = (param: TemplateToken[]) => param.every(part => part.type === 'text')
+			? param.map(part => part.value || '').join('')
+			: null;
+
+		if (!name) {
+			report('Empty variable. Use \\{ and \\} for literal braces.');
+		} else if (name.includes('|')) {
+			report(`Unknown filter "${name.substring(name.indexOf('|') + 1)}"`);
+		} else if (this.variables.has(name)) {
+			const definition = this.variables.get(name) as VariableDefinition;
+			const error = definition.contentOnly && !content
+				? `{${name}} only works in note content`
+				: this.checkVariableParams(definition, (token.params || []).map(literal));
+			if (error) {
+				report(error);
+			}
+		} else if (this.getUserVariable(name)) {
+			const variable = this.getUserVariable(name) as UserVariable;
+			const contentOnly = content ? undefined : this.getAliasVariableNames(variable)
+				.find(used => this.variables.has(used) && (this.variables.get(used) as VariableDefinition).contentOnly);
+			const error = contentOnly
+				? `Alias {${name}} uses {${contentOnly}}, which only works in note content`
+				: this.checkUserVariableParams(variable, token.params || []);
+			if (error) {
+				report(error);
+			}
+		} else {
+			report(`Unknown variable {${name}}`);
+		}
+
+		for (const filter of token.filters || []) {
+			const error = this.checkFilterParams(filter.name, filter.params.map(literal));
+			if (error) {
+				report(error);
+			}
+		}
+
+		// Nested variables
+		const nested = (token.params || []).concat(...(token.filters || []).map(filter => filter.params));
+		for (const param of nested) {
+			for (const part of param) {
+				if (part.type === 'variable') {
+					this.validateVariable(part, issues, content);
+				}
+			}
+		}
+	}
+
+	/**
+	 * Check the parameters of a variable against its parameter schema
+	 * @param variable The variable
+	 * @param params Parameter values, null for those containing variables
+	 * @returns An error message, or null if the parameters are valid
+	 */
+	private checkVariableParams(variable: VariableDefinition, params: (string | null)[]): string | null {
+		const name = variable.name;
+		const schema = variable.params;
+		const last = schema[schema.length - 1];
+
+		const missing = schema.slice(params.length).filter(param => !param.optional);
+		if (missing.length > 0) {
+			return `{${name}} needs ${missing.map(param => param.name).join(', ')}`;
+		}
+		if (params.length > schema.length && !(last && last.repeat)) {
+			if (schema.length === 0) {
+				return `{${name}} takes no parameters`;
+			}
+			const count = schema.length === 1 ? `one parameter, ${last.name}` : `at most ${schema.length} parameters`;
+			const isText = last.values === undefined && last.min === undefined && last.max === undefined;
+			return `{${name}} takes ${count}` + (isText ? '. Quote parameters to use commas in them.' : '');
+		}
+
+		for (let index = 0; index < params.length; index++) {
+			const value = params[index];
+			const param = schema[Math.min(index, schema.length - 1)];
+			if (value === null) {
+				continue;
+			}
+			if (value === '') {
+				if (param.optional) {
+					continue;
+				}
+				return `{${name}} needs ${param.name}`;
+			}
+			if (param.values && !param.values.includes(value)) {
+				return `${param.name} of {${name}} must be ` + (param.values.length === 1 ? param.values[0] : `one of ${param.values.join(', ')}`);
+			}
+			if (param.min !== undefined || param.max !== undefined) {
+				const number = parseInt(value);
+				const min = param.min !== undefined ? param.min : -Infinity;
+				const max = param.max !== undefined ? param.max : Infinity;
+				if (!/^-?\d+$/.test(value.trim()) || number < min || number > max) {
+					return `${param.name} of {${name}} must be a number`
+						+ (param.min !== undefined && param.max !== undefined ? ` from ${param.min} to ${param.max}` : '');
+				}
+			}
+			const error = param.validate ? param.validate(value) : null;
+			if (error) {
+				return error;
+			}
+		}
+		return null;
+	}
+
+	/**
+	 * Check a use of a variable defined in the settings
+	 * @param variable The variable
+	 * @param params Parameter tokens
+	 * @returns An error message, or null if the variable can be used like this
+	 */
+	private checkUserVariableParams(variable: UserVariable, params: TemplateToken[][]): string | null {
+		if (variable.type === 'alias') {
+			const cycle = this.findAliasCycle(variable.name);
+			if (cycle) {
+				const path = cycle.map(name => `{${name}}`).join(' → ');
+				return cycle[0] === variable.name
+					? `Alias {${variable.name}} refers to itself: ${path}`
+					: `Alias {${variable.name}} uses aliases that refer to themselves: ${path}`;
+			}
+		}
+		if (variable.type === 'script') {
+			if (!this.scriptsAllowed()) {
+				return `{${variable.name}} is a JavaScript variable, and JavaScript variables are turned off on this device`;
+			}
+			const error = this.scriptErrors.get(variable.name);
+			return error ? `{${variable.name}} failed the last time it ran: ${error}` : null;
+		}
+		if (params.length > 0) {
+			return `{${variable.name}} takes no parameters`;
+		}
+		return null;
+	}
+
+	/**
+	 * Check the parameters of a filter
+	 * @param name Filter name
+	 * @param params Parameter values, null for those containing variables
+	 * @returns An error message, or null if the parameters are valid
+	 */
+	private checkFilterParams(name: string, params: (string | null)[]): string | null {
+		const isNumber = (value: string | null) => value === null || /^-?\d+$/.test(value.trim());
+
+		switch (name) {
+			case 'pad':
+				if (params.length > 3) {
+					return '|pad takes a length, a character and "right"';
+				}
+				if (params.length > 0 && !isNumber(params[0])) {
+					return 'The length of |pad must be a number';
+				}
+				return params.length < 3 || params[2] === null || params[2] === 'right' ? null : 'The third parameter of |pad can only be "right"';
+			case 'truncate':
+				return params.length >= 1 && params.length <= 2 && isNumber(params[0])
+					? null
+					: '|truncate takes a length and an optional suffix';
+			case 'substring':
+				return params.length >= 1 && params.length <= 2 && params.every(isNumber)
+					? null
+					: '|substring takes a start and an optional end position';
+			case 'replace':
+				return params.length >= 1 && params.length <= 2 && params[0] !== ''
+					? null
+					: '|replace takes the text to replace and its replacement';
+			default:
+				return params.length > 0 ? `|${name} takes no parameters` : null;
+		}
+	}
+
+	/**
+	 * Check whether a date offset is understood by applyDateOffset
+	 * @param offset Offset expression, e.g. +1d or next monday
+	 * @returns True if the offset is valid
+	 */
+	private isDateOffset(offset: string): boolean {
+		const expression = offset.trim();
+		const lower = expression.toLowerCase();
+		if (/^([+-]\d+)\s*(y|Q|M|w|d|h|m|s)$/.test(expression)
+			|| ['today', 'tomorrow', 'yesterday'].includes(lower)
+			|| /^(start|end) of (day|week|isoweek|month|quarter|year)$/.test(lower)) {
+			return true;
+		}
+		const relative = /^(next|last) (\S+)$/.exec(lower);
+		return relative !== null
+			&& (['day', 'week', 'month', 'quarter', 'year'].includes(relative[2]) || this.parseWeekday(relative[2]) !== -1);
+	}
+
+	/**
+	 * Get all variables, for help and autocomplete
+	 * @returns Built-in variables in help order, followed by those added
+	 * through the API and those defined in the settings
+	 */
+	getVariables(): VariableInfo[] {
+		const variables: VariableInfo[] = [];
+		this.variables.forEach(variable => {
+			for (const form of variable.forms) {
+				variables.push(Object.assign({ name: variable.name, section: variable.section }, form));
+			}
+		});
+		const user = this.getUserVariables().map(variable => ({
+			name: variable.name,
+			syntax: `{${variable.name}}`,
+			description: variable.type === 'constant' ? `Constant: ${variable.value}`
+				: variable.type === 'alias' ? `Alias of ${variable.value}`
+				: 'JavaScript',
+			section: 'Custom variables'
+		}));
+		return variables.concat(user);
+	}
+
+	/**
+	 * Get the variables defined in the settings that can be used, skipping
+	 * those with an invalid or taken name
+	 * @returns Usable variables, in settings order
+	 */
+	getUserVariables(): UserVariable[] {
+		return this.settings.userVariables.filter((variable, index) => !this.checkUserVariableName(variable.name, index));
+	}
+
+	/**
+	 * Find a usable variable defined in the settings
+	 * @param name Variable name
+	 * @returns The variable, or undefined if there is none with this name
+	 */
+	getUserVariable(name: string): UserVariable | undefined {
+		return this.getUserVariables().find(variable => variable.name === name);
+	}
+
+	/**
+	 * Check the name of a variable defined in the settings
+	 * @param name Variable name
+	 * @param index Position of the variable in the settings
+	 * @returns An error message, or null if the name can be used
+	 */
+	checkUserVariableName(name: string, index: number): string | null {
+		if (!VARIABLE_NAME_PATTERN.test(name)) {
+			return 'Names start with a letter and contain only letters, digits, _ and -';
+		}
+		const existing = this.variables.get(name);
+		if (existing) {
+			return existing.source ? `{${name}} is already added by another plugin` : `{${name}} is a built-in variable`;
+		}
+		if (this.settings.userVariables.slice(0, index).some(variable => variable.name === name)) {
+			return `{${name}} is already defined above`;
+		}
+		return null;
+	}
+
+	/**
+	 * Resolve a variable defined in the settings
+	 * @param variable The variable
+	 * @param params Variable parameters, only passed to scripts
+	 * @param context Note context
+	 * @returns The value, or an empty string if an alias is circular or a
+	 * script failed
+	 */
+	private resolveUserVariable(variable: UserVariable, params: string[], context: TemplateContext): string {
+		switch (variable.type) {
+			case 'constant':
+				return variable.value;
+			case 'alias':
+				// The alias shares the note context, so its variables match the
+				// same variables elsewhere in the note
+				return this.findAliasCycle(variable.name) ? '' : this.processTemplate(variable.value, context);
+			case 'script':
+				return this.runScript(variable, params, context);
+			default:
+				return '';
+		}
+	}
+
+	/**
+	 * Find a cycle of aliases that refer to each other, e.g. {a} → {b} → {a}
+	 * @param name Name of the alias to start from
+	 * @param path Aliases already followed
+	 * @returns Names along the cycle, starting and ending with the same
+	 * alias, or null if there is no cycle
+	 */
+	findAliasCycle(name: string, path: string[] = []): string[] | null {
+		const variable = this.getUserVariable(name);
+		if (!variable || variable.type !== 'alias') {
+			return null;
+		}
+		if (path.includes(name)) {
+			return path.slice(path.indexOf(name)).concat(name);
+		}
+
+		for (const referenced of this.getVariableNames(this.tokenizeTemplate(variable.value))) {
+			const cycle = this.findAliasCycle(referenced, path.concat(name));
+			if (cycle) {
+				return cycle;
+			}
+		}
+		return null;
+	}
+
+	/**
+	 * Get the templates of the aliases that templates use, directly or
+	 * through other aliases
+	 * @param templates The templates
+	 * @returns Alias templates, each once
+	 */
+	private getAliasTemplates(templates: string[]): string[] {
+		const aliases: UserVariable[] = [];
+		const visit = (template: string) => {
+			for (const name of this.getVariableNames(this.tokenizeTemplate(template))) {
+				const variable = this.getUserVariable(name);
+				if (variable && variable.type === 'alias' && !aliases.includes(variable)) {
+					aliases.push(variable);
+					visit(variable.value);
+				}
+			}
+		};
+		templates.forEach(visit);
+		return aliases.map(variable => variable.value);
+	}
+
+	/**
+	 * Replace aliases in parsed template tokens with the tokens of their
+	 * templates, so that the variables they contain can be looked at.
+	 * Aliases with filters or that refer to themselves are kept.
+	 * @param tokens The tokens
+	 * @returns Tokens without aliases
+	 */
+	private expandAliases(tokens: TemplateToken[]): TemplateToken[] {
+		const expanded: TemplateToken[] = [];
+		for (const token of tokens) {
+			const variable = token.type === 'variable' && token.name !== undefined ? this.getUserVariable(token.name) : undefined;
+			if (variable && variable.type === 'alias' && (token.filters || []).length === 0 && !this.findAliasCycle(variable.name)) {
+				expanded.push(...this.expandAliases(this.tokenizeTemplate(variable.value)));
+			} else {
+				expanded.push(token);
+			}
+		}
+		return expanded;
+	}
+
+	/**
+	 * Check whether a variable produces random values, itself or through
+	 * the aliases it refers to
+	 * @param name Variable name
+	 * @returns Whether the variable's value changes when it is regenerated
+	 */
+	private usesRandomValues(name: string): boolean {
+		if (RANDOM_VARIABLES.includes(name)) {
+			return true;
+		}
+		const variable = this.getUserVariable(name);
+		return !!variable && this.getAliasVariableNames(variable).some(used => RANDOM_VARIABLES.includes(used));
+	}
+
+	/**
+	 * Get the names of the variables an alias uses, directly or through
+	 * other aliases
+	 * @param variable The variable
+	 * @returns Variable names; empty if the variable is not an alias
+	 */
+	private getAliasVariableNames(variable: UserVariable): string[] {
+		if (variable.type !== 'alias') {
+			return [];
+		}
+		return [variable.value].concat(this.getAliasTemplates([variable.value]))
+			.flatMap(template => this.getVariableNames(this.tokenizeTemplate(template)));
+	}
+
+	/**
+	 * Get the names of all variables in parsed template tokens, including
+	 * those nested in parameters
+	 * @param tokens The tokens
+	 * @returns Variable names, in order of appearance
+	 */
+	private getVariableNames(tokens: TemplateToken[]): string[] {
+		const names: string[] = [];
+		for (const token of tokens) {
+			if (token.type !== 'variable' || token.name === undefined) {
+				continue;
+			}
+			names.push(token.name);
+			const nested = (token.params || []).concat(...(token.filters || []).map(filter => filter.params));
+			for (const param of nested) {
+				names.push(...this.getVariableNames(param));
+			}
+		}
+		return names;
+	}
+
+	/**
+	 * Check whether JavaScript variables may run on this device
+	 * @returns Whether they were turned on in the settings on this device
+	 */
+	scriptsAllowed(): boolean {
+		return this.app.loadLocalStorage(ALLOW_SCRIPTS_KEY) === 'true';
+	}
+
+	/**
+	 * Compile the body of a script variable
+	 * @param code Body of the function
+	 * @returns Function of the date, the parameters and the note
+	 */
+	private compileScript(code: string): (...args: unknown[]) => unknown {
+		return new Function('date', 'params', 'note', `"use strict";\n${code}`) as (...args: unknown[]) => unknown;
+	}
+
+	/**
+	 * Check the body of a script variable for syntax errors
+	 * @param code Body of the function
+	 * @returns An error message, or null if the script compiles
+	 */
+	checkScript(code: string): string | null {
+		try {
+			this.compileScript(code);
+			return null;
+		} catch (error) {
+			return `Syntax error: ${error instanceof Error ? error.message : String(error)}`;
+		}
+	}
+
+	/**
+	 * Run a script variable. The script gets a moment for the note's date,
+	 * the variable parameters and a copy of what is known about the note.
+	 *
+	 * Scripts run in the app like any plugin code and can't be stopped, so
+	 * they only run when turned on in the settings, and never for previews,
+	 * which are updated on every keystroke.
+	 * @param variable The variable
+	 * @param params Variable parameters
+	 * @param context Note context
+	 * @returns The value the script returned, the variable itself in previews,
+	 * or an empty string if scripts are off or the script failed
+	 */
+	private runScript(variable: UserVariable, params: string[], context: TemplateContext): string {
+		if (!this.scriptsAllowed()) {
+			return '';
+		}
+		if (context.dryRun) {
+			return `{${variable.name}}`;
+		}
+		const result = this.testScript(variable, params, context);
+		if (result.error !== undefined) {
+			new Notice(`Variable {${variable.name}} failed: ${result.error}`);
+			return '';
+		}
+		return result.value;
+	}
+
+	/**
+	 * Run a script variable, even for previews, and record whether it failed
+	 * so that templates using it are marked
+	 * @param variable The variable
+	 * @param params Variable parameters
+	 * @param context Note context
+	 * @returns The value the script returned, or why it failed
+	 */
+	testScript(variable: UserVariable, params: string[], context: TemplateContext): { value: string, error?: string } {
+		const file = context.sourceFile;
+		const cache = file ? this.app.metadataCache.getFileCache(file) : null;
+		const note = Object.freeze({
+			title: context.title,
+			sourcePath: file ? file.path : '',
+			frontmatter: cache && cache.frontmatter ? JSON.parse(JSON.stringify(cache.frontmatter)) : {},
+			selection: context.selection || '',
+			dryRun: !!context.dryRun
+		});
+
+		try {
+			const value = this.compileScript(variable.value)(this.getMoment(context.date || new Date()), params.slice(), note);
+			this.scriptErrors.delete(variable.name);
+			return { value: value === undefined || value === null ? '' : String(value) };
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			this.scriptErrors.set(variable.name, message);
+			return { value: '', error: message };
+		}
+	}
+
+	/**
+	 * Create the public API
+	 * @returns The API object
+	 */
+	private createApi(): TemplateFilenameApi {
+		return {
+			registerVariable: (variable) => this.registerVariable(variable),
+			unregisterVariable: (name) => {
+				const existing = this.variables.get(name);
+				if (existing && existing.source) {
+					this.variables.delete(name);
+				}
+			},
+			processTemplate: async (template, options = {}) => {
+				const context = this.createContext(options.dryRun);
+				context.date = options.date;
+				if (options.sourceFile !== undefined) {
+					context.sourceFile = options.sourceFile;
+				}
+				if (!(await this.prepareContext([template], context))) {
+					return null;
+				}
+				const result = this.processTemplate(template, context);
+				await this.commitCounters(context);
+				return result;
+			},
+			createNote: async (options = {}) => {
+				const profile = this.settings.profiles.find(profile => profile.id === options.profile || profile.name === options.profile);
+				const note = Object.assign({}, this.getNoteTemplate(profile ? profile.id : ''));
+				if (options.template !== undefined) {
+					note.template = options.template;
+				}
+				if (options.content !== undefined) {
+					note.content = options.content;
+				}
+				if (options.contentFile !== undefined) {
+					note.contentFile = options.contentFile;
+				}
+				if (options.folder !== undefined) {
+					note.folder = options.folder;
+				}
+				if (options.location !== undefined) {
+					note.location = options.location;
+				}
+
+				const context = this.createContext();
+				const file = await this.generateNote(note, context);
+				if (file && options.open !== false) {
+					await this.openNote(file, note, context.cursorOffset);
+				}
+				return file;
+			},
+			validateTemplate: (template, content) => this.validateTemplate(template, content)
+		};
+	}
+
+	/**
+	 * Add a variable to all templates
+	 * @param variable The variable
+	 * @returns Function that removes the variable again
+	 */
+	registerVariable(variable: TemplateVariable): () => void {
+		if (!VARIABLE_NAME_PATTERN.test(variable.name)) {
+			throw new Error(`Invalid variable name "${variable.name}": use letters, digits, _ and -`);
+		}
+		if (this.variables.has(variable.name)) {
+			throw new Error(`Variable {${variable.name}} already exists`);
+		}
+
+		const params = (variable.params || []).map(param => param.name);
+		this.variables.set(variable.name, {
+			name: variable.name,
+			section: 'Custom variables',
+			params: variable.params || [],
+			forms: [{
+				syntax: params.length > 0 ? `{${variable.name}:${params.join(',')}}` : `{${variable.name}}`,
+				description: variable.description,
+				sample: variable.example
+			}],
+			source: variable,
+			resolve: (params, context) => this.resolveCustomVariable(variable, params, context)
+		});
+		return () => {
+			const existing = this.variables.get(variable.name);
+			if (existing && existing.source === variable) {
+				this.variables.delete(variable.name);
+			}
+		};
+	}
+
+	/**
+	 * Resolve a variable added through the API
+	 * @param variable The variable
+	 * @param params Variable parameters
+	 * @param context Note context
+	 * @returns The value, or an empty string if the resolver failed
+	 */
+	private resolveCustomVariable(variable: TemplateVariable, params: string[], context: TemplateContext): string {
+		try {
+			const value = variable.resolve(params, {
+				date: context.date || new Date(),
+				sourceFile: context.sourceFile || null,
+				title: context.title,
+				dryRun: !!context.dryRun
+			});
+			return value === undefined || value === null ? '' : String(value);
+		} catch (error) {
+			if (!context.dryRun) {
+				new Notice(`Variable {${variable.name}} failed: ${error instanceof Error ? error.message : String(error)}`);
+			}
+			return '';
+		}
+	}
+
+	/**
+	 * Get the help list of one section of variables
+	 * @param section Section name, one of VARIABLE_SECTIONS
+	 * @returns Help items with the syntax and description of each variable
+	 */
+	getVariableHelp(section: string): { name: string, desc: string }[] {
+		return this.getVariables()
+			.filter(variable => variable.section === section)
+			.map(variable => ({ name: variable.syntax, desc: variable.description }));
+	}
+
+	/**
+	 * Get a sample value of a variable, without side effects
+	 * @param variable The variable
+	 * @returns What the variable would produce right now
+	 */
+	getSampleValue(variable: VariableInfo): string {
+		try {
+			return this.processTemplate(variable.sample !== undefined ? variable.sample : variable.syntax, this.createContext(true));
+		} catch (error) {
+			return '';
+		}
+	}
+
+	/**
+	 * Show the mistakes in a template: the template with the mistakes
+	 * marked, and a list of messages
+	 * @param el Element to render into, emptied first
+	 * @param template The template string
+	 * @param issues The mistakes, from validateTemplate
+	 */
+	displayTemplateIssues(el: HTMLElement, template: string, issues: TemplateIssue[]) {
+		el.empty();
+		if (issues.length === 0) {
+			return;
+		}
+
+		// Mistakes inside a variable that is already marked stay unmarked
+		const sourceEl = el.createDiv({ cls: 'template-issues-source' });
+		let pos = 0;
+		for (const issue of issues) {
+			if (issue.start < pos) {
+				continue;
+			}
+			sourceEl.appendText(template.substring(pos, issue.start));
+			sourceEl.createSpan({ cls: 'template-issue-mark', text: template.substring(issue.start, issue.end) });
+			pos = issue.end;
+		}
+		sourceEl.appendText(template.substring(pos));
+
+		const issueList = el.createEl('ul');
+		issues.forEach(issue => issueList.createEl('li', { text: `Column ${issue.start + 1}: ${issue.message}` }));
+	}
+
+	/**
+	 * Check whether a | at the given position starts a filter
+	 * @param template The template string
+	 * @param pos Position to check
+	 * @returns True if there is a | followed by a known filter name
+	 */
+	private isFilterStart(template: string, pos: number): boolean {
+		if (template[pos] !== '|') {
+			return false;
+		}
+		const match = /^([A-Za-z]+)(?=[:|}])/.exec(template.substring(pos + 1));
+		return match !== null && FILTER_NAMES.includes(match[1]);
+	}
+
+	/**
+	 * Parse comma separated parameters
+	 * @param template The template string
+	 * @param start Position of the first character of the first parameter
+	 * @param filters Whether a | may start a filter
+	 * @returns The parameters and the position of the closing brace or
+	 * filter that ends them, or null if the variable is never closed
+	 */
+	private parseParams(template: string, start: number, filters = true): { params: TemplateToken[][], end: number } | null {
+		const params: TemplateToken[][] = [];
+		let pos = start;
+		for (;;) {
+			const param = this.parseParam(template, pos, filters);
+			if (!param) {
+				return null;
+			}
+			params.push(param.tokens);
+			pos = param.end;
+			if (template[pos] !== ',') {
+				return { params, end: pos };
+			}
+			pos++;
+		}
+	}
+
+	/**
+	 * Parse a single variable parameter
+	 * @param template The template string
+	 * @param start Position of the first character of the parameter
+	 * @param filters Whether a | may start a filter
+	 * @returns The parameter tokens and the position of the comma, filter or
+	 * closing brace that ends it, or null if the variable is never closed
+	 */
+	private parseParam(template: string, start: number, filters = true): { tokens: TemplateToken[], end: number } | null {
+		const tokens: TemplateToken[] = [];
+		let text = '';
+		let pos = start;
+
+		// Quoted parameter, taken literally
+		if (template[pos] === '"') {
+			let end = pos + 1;
+			let quoted = '';
+			while (end < template.length && template[end] !== '"') {
+				if (template[end] === '\\' && end + 1 < template.length) {
+					end++;
+				}
+				quoted += template[end];
+				end++;
+			}
+			if (end < template.length) {
+				text = quoted;
+				pos = end + 1;
+			}
+		}
+
+		while (pos < template.length) {
+			const char = template[pos];
+
+			if (char === ',' || char === '}' || (filters && this.isFilterStart(template, pos))) {
+				if (text) {
+					tokens.push({ type: 'text', value: text });
+				}
+				return { tokens, end: pos };
+			}
+
+			// Escaped character
+			if (char === '\\' && pos + 1 < template.length) {
+				text += template[pos + 1];
+				pos += 2;
+				continue;
+			}
+
+			// Nested variable
+			if (char === '{') {
+				const variable = this.parseVariable(template, pos);
+				if (variable) {
+					if (text) {
+						tokens.push({ type: 'text', value: text });
+						text = '';
+					}
+					tokens.push(variable.token);
+					pos = variable.end;
+					continue;
+				}
+			}
+
+			text += char;
+			pos++;
+		}
+
+		return null;
+	}
+
+	/**
+	 * Define the built-in variables, in help order
+	 * @returns Variable definitions
+	 */
+	private createBuiltInVariables(): VariableDefinition[] {
+		// Variables without parameters
+		const plain = (name: string, section: string, description: string, resolve: (context: TemplateContext) => string): VariableDefinition => ({
+			name,
+			section,
+			params: [],
+			forms: [{ syntax: `{${name}}`, description }],
+			resolve: (params, context) => resolve(context)
+		});
+		const time = (name: string, description: string, format: (now: Date) => string) =>
+			plain(name, 'Date and time', description, context => format(context.date || new Date()));
+		const text = (name: string, description: string, sample: string, transform: (text: string) => string): VariableDefinition => ({
+			name,
+			section: name === 'hash' ? 'Unique identifiers and timestamps' : 'Text formatting',
+			params: [{ name: 'text' }],
+			forms: [{ syntax: `{${name}:text}`, description, sample }],
+			resolve: params => transform(params[0] || '')
+		});
+		const base: TemplateVariableParam[] = [{ name: 'base', optional: true, min: 2, max: 36 }];
+
+		return [
+			// Date and time
+			time('YYYY', '4-digit year (e.g., 2025)', now => now.getFullYear().toString()),
+			time('YY', '2-digit year (e.g., 25)', now => now.getFullYear().toString().slice(2)),
+			time('MM', '2-digit month (01-12)', now => (now.getMonth() + 1).toString().padStart(2, '0')),
+			time('M', 'Month without leading zero (1-12)', now => (now.getMonth() + 1).toString()),
+			time('MMMM', 'Full month name in the date locale (January, February...)', now => this.getMonthName(now.getMonth())),
+			time('MMM', 'Short month name in the date locale (Jan, Feb...)', now => this.getMonthName(now.getMonth(), true)),
+			time('DD', '2-digit day (01-31)', now => now.getDate().toString().padStart(2, '0')),
+			time('D', 'Day without leading zero (1-31)', now => now.getDate().toString()),
+			time('DDD', 'Day of year (001-366)', now => this.getDayOfYear(now).toString().padStart(3, '0')),
+			time('dddd', 'Full weekday name in the date locale (Monday, Tuesday...)', now => this.getDayName(now.getDay())),
+			time('ddd', 'Short weekday name in the date locale (Mon, Tue...)', now => this.getDayName(now.getDay(), true)),
+			time('WW', 'ISO week number of year (01-53)', now => this.getWeekNumber(now).toString().padStart(2, '0')),
+			time('GGGG', 'ISO week-year, use with {WW} (e.g., 2025)', now => this.getWeekYear(now).toString()),
+			time('GG', '2-digit ISO week-year (e.g., 25)', now => this.getWeekYear(now).toString().slice(2)),
+			time('Q', 'Quarter of year (1-4)', now => (Math.floor(now.getMonth() / 3) + 1).toString()),
+			time('HH', '2-digit hour, 24-hour format (00-23)', now => now.getHours().toString().padStart(2, '0')),
+			time('H', 'Hour without leading zero (0-23)', now => now.getHours().toString()),
+			time('hh', '2-digit hour, 12-hour format (01-12)', now => (now.getHours() % 12 || 12).toString().padStart(2, '0')),
+			time('h', 'Hour, 12-hour format, without leading zero (1-12)', now => (now.getHours() % 12 || 12).toString()),
+			time('A', 'AM/PM', now => this.getMoment(now).format('A')),
+			time('a', 'am/pm', now => this.getMoment(now).format('a')),
+			time('mm', '2-digit minute (00-59)', now => now.getMinutes().toString().padStart(2, '0')),
+			time('m', 'Minute without leading zero (0-59)', now => now.getMinutes().toString()),
+			time('ss', '2-digit second (00-59)', now => now.getSeconds().toString().padStart(2, '0')),
+			time('s', 'Second without leading zero (0-59)', now => now.getSeconds().toString()),
+			time('SSS', '3-digit millisecond (000-999)', now => now.getMilliseconds().toString().padStart(3, '0')),
+			time('Z', 'UTC offset (+02:00)', now => moment(now).format('Z')),
+			time('ZZ', 'UTC offset without colon (+0200)', now => moment(now).format('ZZ')),
+			time('tz', 'Timezone name (Europe/Berlin)', () => Intl.DateTimeFormat().resolvedOptions().timeZone || ''),
+			{
+				name: 'date',
+				section: 'Date and time',
+				params: [
+					{ name: 'format', optional: true },
+					{ name: 'offset', optional: true, repeat: true, validate: offset => this.isDateOffset(offset) ? null : `Unknown date offset "${offset}"` }
+				],
+				forms: [
+					{ syntax: '{date:FORMAT}', description: 'Date in any moment.js format, e.g. {date:YYYY-[W]WW}', sample: '{date:YYYY-[W]WW}' },
+					{ syntax: '{date:FORMAT,offset}', description: 'Shifted date: +1d, -2w, tomorrow, next monday, start of week, end of month...', sample: '{date:YYYY-MM-DD,+1d}' }
+				],
+				resolve: (params, context) => {
+					let date = this.getMoment(context.date || new Date());
+					for (const offset of params.slice(1)) {
+						date = this.applyDateOffset(date, offset);
+					}
+					return date.format(params[0] || 'YYYY-MM-DD');
+				}
+			},
+
+			// Unique identifiers and timestamps
+			{
+				name: 'random',
+				section: 'Unique identifiers and timestamps',
+				params: [{ name: 'length', optional: true, min: 1, max: 64 }],
+				forms: [{ syntax: '{random:N}', description: 'Random string of N characters', sample: '{random:6}' }],
+				resolve: params => this.generateRandomString(parseInt(params[0]) || 6)
+			},
+			plain('uuid', 'Unique identifiers and timestamps', 'Generate a UUID/GUID', () => this.generateUUID()),
+			plain('shortid', 'Unique identifiers and timestamps', 'Generate a shorter unique ID (8 chars)', () => this.generateShortId()),
+			{
+				name: 'unixtime',
+				section: 'Unique identifiers and timestamps',
+				params: base,
+				forms: [{ syntax: '{unixtime:B}', description: 'Unix timestamp in base B (2-36)', sample: '{unixtime:36}' }],
+				resolve: (params, context) => this.formatInBase(Math.floor((context.date || new Date()).getTime() / 1000), params[0])
+			},
+			{
+				name: 'daytime',
+				section: 'Unique identifiers and timestamps',
+				params: base,
+				forms: [{ syntax: '{daytime:B}', description: 'Seconds since midnight in base B (2-36)', sample: '{daytime:16}' }],
+				resolve: (params, context) => {
+					const now = context.date || new Date();
+					return this.formatInBase(now.getHours() * 3600 + now.getMinutes() * 60 + now.getSeconds(), params[0]);
+				}
+			},
+			text('hash', 'Create a hash of provided text', '{hash:example}', text => this.createHash(text)),
+
+			// Counter variables
+			{
+				name: 'counter',
+				section: 'Counter variables',
+				params: [{ name: 'name', optional: true }],
+				forms: [
+					{ syntax: '{counter}', description: 'Global auto-incrementing counter' },
+					{ syntax: '{counter:name}', description: 'Named counter (separate sequence)' },
+					{ syntax: '{counter:reset}', description: 'Reset all counters', sample: '' }
+				],
+				resolve: (params, context) => this.nextCounter(params[0], context)
+			},
+			{
+				name: 'tag',
+				section: 'Counter variables',
+				params: [{ name: 'option', optional: true, values: ['reset'] }],
+				forms: [
+					{ syntax: '{tag}', description: '4-character base 36 counter (0001, 0002...)' },
+					{ syntax: '{tag:reset}', description: 'Reset the tag counter', sample: '' }
+				],
+				resolve: (params, context) => this.nextTag(params[0] === 'reset', context)
+			},
+
+			// Context variables
+			plain('activefile', 'Context variables', 'Name of the active note', context => context.sourceFile ? context.sourceFile.basename : ''),
+			plain('activefolder', 'Context variables', 'Folder of the active note', context => {
+				const parent = context.sourceFile ? context.sourceFile.parent : null;
+				return parent && !parent.isRoot() ? parent.path : '';
+			}),
+			{
+				name: 'fm',
+				section: 'Context variables',
+				params: [{ name: 'property' }],
+				forms: [{ syntax: '{fm:key}', description: 'Frontmatter field of the active note', sample: '{fm:tags}' }],
+				resolve: (params, context) => this.getFrontmatterValue(context.sourceFile, params[0] || '')
+			},
+			plain('selection', 'Context variables', 'Text selected in the editor', context => context.selection || ''),
+			plain('clipboard', 'Context variables', 'Text on the clipboard', context => context.clipboard || ''),
+
+			// Prompts, normally answered before processing (see askPrompts)
+			{
+				name: 'prompt',
+				section: 'Prompts',
+				params: [{ name: 'label', optional: true }, { name: 'default', optional: true }],
+				forms: [
+					{ syntax: '{prompt:Label}', description: 'Ask for text when the note is created' },
+					{ syntax: '{prompt:Label,default}', description: 'Ask for text, with a default answer' }
+				],
+				resolve: (params, context) => params[1] || (context.dryRun ? params[0] || '' : '')
+			},
+			{
+				name: 'select',
+				section: 'Prompts',
+				params: [{ name: 'label' }, { name: 'options', repeat: true }],
+				forms: [{ syntax: '{select:Label,a|b|c}', description: 'Choose one of the options when the note is created. | always separates options here, it is not a filter.' }],
+				resolve: (params, context) => context.dryRun ? params[0] || '' : ''
+			},
+
+			// System variables
+			plain('hostname', 'System variables', 'Computer/device name, can be set per device in the settings', () => this.getHostname()),
+			plain('username', 'System variables', 'Current user\'s name, can be set per device in the settings', () => this.getUsername()),
+
+			// Text formatting
+			text('lowercase', 'Convert text to lowercase', '{lowercase:Example}', text => text.toLowerCase()),
+			text('uppercase', 'Convert text to uppercase', '{uppercase:Example}', text => text.toUpperCase()),
+			text('slugify', 'Convert text to URL-friendly slug', '{slugify:An Example}', text => this.slugify(text)),
+
+			// Note content variables. The title is only known once the filename
+			// has been generated, see resolveVariable
+			{ ...plain('title', 'Note content variables', 'Final name of the new note (content only)', () => '{title}'), contentOnly: true },
+			{ ...plain('filename', 'Note content variables', 'Same as {title}', () => '{filename}'), contentOnly: true },
+			// Only marks a position, see processContent
+			{ ...plain('cursor', 'Note content variables', 'Where to place the cursor when the note is opened', () => ''), contentOnly: true }
+		];
+	}
+
+	/**
+	 * Format a number in a base
+	 * @param value The number
+	 * @param base Base from 2 to 36; base 10 if missing or out of range
+	 * @returns Formatted number
+	 */
+	private formatInBase(value: number, base: string | undefined): string {
+		const radix = parseInt(base || '') || 10;
+		return radix >= 2 && radix <= 36 ? value.toString(radix) : value.toString();
+	}
+
+	/**
+	 * Take the next value of the global or a named counter, or reset all
+	 * counters
+	 * @param name Counter name, reset, or undefined for the global counter
+	 * @param context Note context
+	 * @returns Counter value, or an empty string after a reset
+	 */
+	private nextCounter(name: string | undefined, context: TemplateContext): string {
+		const counters = this.getCounters(context);
+		if (name === 'reset') {
+			counters.global = 1;
+			counters.named = {};
+			if (context.counterResets) {
+				context.counterResets.counter = true;
+			}
+			return '';
+		}
+		if (name === undefined) {
+			const value = counters.global;
+			counters.global++;
+			return value.toString();
+		}
+
+		if (counters.named[name] === undefined) {
+			counters.named[name] = 1;
+		}
+		const value = counters.named[name];
+		counters.named[name]++;
+		return value.toString();
+	}
+
+	/**
+	 * Take the next value of the tag counter, or reset it
+	 * @param reset Whether to reset the counter
+	 * @param context Note context
+	 * @returns Tag, or an empty string after a reset
+	 */
+	private nextTag(reset: boolean, context: TemplateContext): string {
+		const counters = this.getCounters(context);
+		if (reset) {
+			counters.tag = 1;
+			if (context.counterResets) {
+				context.counterResets.tag = true;
+			}
+			return '';
+		}
+
+		const value = counters.tag;
+		counters.tag++;
+		return this.formatTag(value);
+	}
+
+	/**
+	 * Format a tag counter value as 4 uppercase base 36 digits
+	 * @param value Counter value
+	 * @returns Tag string
+	 */
+	formatTag(value: number): string {
+		return ('0000' + value.toString(36).toUpperCase()).slice(-4);
+	}
+
+	/**
+	 * Apply a filter to the output of a variable
+	 * @param name Filter name
+	 * @param value Value to filter
+	 * @param params Filter parameters
+	 * @returns The filtered value
+	 */
+	private applyFilter(name: string, value: string, params: string[] = []): string {
+		switch (name) {
+			// Case
+			case 'lower':
+			case 'lowercase': return value.toLowerCase();
+			case 'upper':
+			case 'uppercase': return value.toUpperCase();
+			case 'camel': return this.splitWords(value)
+				.map((word, index) => index === 0
+					? word.toLowerCase()
+					: word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
+				.join('');
+			case 'snake': return this.splitWords(value).join('_').toLowerCase();
+			case 'kebab': return this.splitWords(value).join('-').toLowerCase();
+			case 'slugify': return this.slugify(value);
+			case 'ascii': return this.transliterate(value);
+			
+			// Length
+			case 'trim': return value.trim();
+			case 'pad': {
+				const length = parseInt(params[0]) || 2;
+				const padChar = params[1] || '0';
+				return params[2] === 'right' ? value.padEnd(length, padChar) : value.padStart(length, padChar);
+			}
+			case 'truncate': {
+				const length = parseInt(params[0]);
+				const suffix = params[1] || '';
+				if (isNaN(length) || value.length <= length) {
+					return value;
+				}
+				return value.slice(0, Math.max(0, length - suffix.length)) + suffix;
+			}
+			case 'substring': {
+				const start = parseInt(params[0]) || 0;
+				const end = parseInt(params[1]);
+				return isNaN(end) ? value.slice(start) : value.slice(start, end);
+			}
+			
+			// Replacement
+			case 'replace': return params[0] ? value.split(params[0]).join(params[1] || '') : value;
+			
+			default: return value;
+		}
+	}
+
+	/**
+	 * Split text into words at spaces, punctuation and camelCase boundaries
+	 * @param text Text to split
+	 * @returns Non-empty words
+	 */
+	private splitWords(text: string): string[] {
+		return text
+			.replace(/([\p{Ll}\p{N}])(\p{Lu})/gu, '$1 $2')
+			.split(/[^\p{L}\p{M}\p{N}]+/u)
+			.filter(word => word.length > 0);
+	}
+
+	/**
+	 * Transliterate text to ASCII by removing accents and replacing
+	 * letters without an ASCII equivalent
+	 * @param text Text to transliterate
+	 * @returns ASCII text
+	 */
+	private transliterate(text: string): string {
+		return text
+			.replace(/[ßæÆœŒøØłŁđĐðÐþÞ]/g, char => ASCII_REPLACEMENTS[char])
+			.normalize('NFD')
+			.replace(/[\u0300-\u036f]/g, '')
+			.replace(/[\u0080-\uFFFF]/g, '');
+	}
+
+	/**
+	 * Move a date by an offset such as +1d, -2w, next monday, tomorrow
+	 * or start of week. Unknown offsets leave the date unchanged.
+	 * @param date Date to move
+	 * @param offset Offset expression
+	 * @returns The moved date
+	 */
+	private applyDateOffset(date: Moment, offset: string): Moment {
+		const expression = offset.trim();
+		const lower = expression.toLowerCase();
+		
+		// Relative amounts: +1d, -2w, +3M...
+		const amount = /^([+-]\d+)\s*(y|Q|M|w|d|h|m|s)$/.exec(expression);
+		if (amount) {
+			return date.clone().add(parseInt(amount[1]), amount[2] as unitOfTime.DurationConstructor);
+		}
+		
+		// Named days
+		switch (lower) {
+			case 'today': return date.clone();
+			case 'tomorrow': return date.clone().add(1, 'd');
+			case 'yesterday': return date.clone().subtract(1, 'd');
+		}
+		
+		// Start or end of a period: start of week, end of month...
+		const anchor = /^(start|end) of (day|week|isoweek|month|quarter|year)$/.exec(lower);
+		if (anchor) {
+			const unit = (anchor[2] === 'isoweek' ? 'isoWeek' : anchor[2]) as unitOfTime.StartOf;
+			return anchor[1] === 'start' ? date.clone().startOf(unit) : date.clone().endOf(unit);
+		}
+		
+		// Next or last period or weekday: next week, last friday...
+		const relative = /^(next|last) (\S+)$/.exec(lower);
+		if (relative) {
+			const direction = relative[1] === 'next' ? 1 : -1;
+			if (['day', 'week', 'month', 'quarter', 'year'].includes(relative[2])) {
+				return date.clone().add(direction, relative[2] as unitOfTime.DurationConstructor);
+			}
+			
+			const weekday = this.parseWeekday(relative[2]);
+			if (weekday !== -1) {
+				const target = date.clone().day(weekday);
+				if (direction === 1 && !target.isAfter(date, 'day')) {
+					target.add(1, 'w');
+				} else if (direction === -1 && !target.isBefore(date, 'day')) {
+					target.subtract(1, 'w');
+				}
+				return target;
+			}
+		}
+		
+		return date;
+	}
+
+	/**
+	 * Find the index of a weekday name in English or the configured locale
+	 * @param name Full or short weekday name, in lowercase
+	 * @returns Day index (0-6, starting with Sunday), or -1 if unknown
+	 */
+	private parseWeekday(name: string): number {
+		const localeData = this.getMoment(new Date()).localeData();
+		const lists = [moment.localeData('en').weekdays(), localeData.weekdays(), localeData.weekdaysShort()];
+		for (const list of lists) {
+			const index = list.findIndex(day => day.toLowerCase() === name || day.toLowerCase().slice(0, 3) === name);
+			if (index !== -1) {
+				return index;
+			}
+		}
+		return -1;
+	}
+
+	/**
+	 * Get a frontmatter field of a file as text
+	 * @param file The file
+	 * @param key Frontmatter key
+	 * @returns The value, lists joined with commas; empty if missing
+	 */
+	private getFrontmatterValue(file: TFile | null | undefined, key: string): string {
+		if (!file) {
+			return '';
+		}
+		const cache = this.app.metadataCache.getFileCache(file);
+		const value = cache && cache.frontmatter ? cache.frontmatter[key] : undefined;
+		if (value === undefined || value === null) {
+			return '';
+		}
+		return Array.isArray(value) ? value.join(', ') : String(value);
+	}
+
+	/**
+	 * Get the name of this device: the name set for this device in the
+	 * settings, else the OS hostname on desktop or the platform on mobile
+	 * @returns Device name
+	 */
+	getHostname(): string {
+		const override = this.app.loadLocalStorage(DEVICE_NAME_KEY);
+		if (override) {
+			return override;
+		}
+		const os = this.getOs();
+		if (os) {
+			try {
+				return os.hostname();
+			} catch (error) {
+				// Fall through to the platform name
+			}
+		}
+		if (Platform.isIosApp) {
+			return 'iOS';
+		}
+		if (Platform.isAndroidApp) {
+			return 'Android';
+		}
+		return 'device';
+	}
+
+	/**
+	 * Get the name of the current user: the name set for this device in the
+	 * settings, else the OS user on desktop, else the device name
+	 * @returns User name
+	 */
+	getUsername(): string {
+		const override = this.app.loadLocalStorage(USER_NAME_KEY);
+		if (override) {
+			return override;
+		}
+		const os = this.getOs();
+		if (os) {
+			try {
+				return os.userInfo().username;
+			} catch (error) {
+				// Throws when the user has no passwd entry, e.g. in containers
+				return this.getHostname();
+			}
+		}
+		return 'user';
+	}
+
+	/**
+	 * Load Node's os module
+	 * @returns The module, or null on mobile or if it can't be loaded
+	 */
+	private getOs(): OsModule | null {
+		const nodeRequire = (window as NodeWindow).require;
+		if (!Platform.isDesktopApp || !nodeRequire) {
+			return null;
+		}
+		try {
+			return nodeRequire('os') as OsModule;
+		} catch (error) {
+			return null;
+		}
+	}
+
+	/**
+	 * Get a moment for a date in the configured locale
+	 * @param date Date object
+	 * @returns Moment using the configured locale, or Obsidian's language
+	 */
+	private getMoment(date: Date): Moment {
+		return moment(date).locale(this.getDateLocale());
+	}
+
+	/**
+	 * Get the name of the moment locale for dates. With a first day of the
+	 * week set, this is a child of the configured locale with that week, so
+	 * week numbers and start of week follow it
+	 * @returns Locale name
+	 */
+	private getDateLocale(): string {
+		const locale = moment().locale(this.settings.locale || moment.locale()).locale();
+		const weekStart = this.settings.weekStart;
+		if (weekStart === -1) {
+			return locale;
+		}
+
+		const name = `${locale}-week${weekStart}`;
+		if (!moment.locales().includes(name)) {
+			// Keep the day of January that always falls in week 1
+			const data = moment.localeData(locale);
+			const doy = data.firstDayOfYear() - data.firstDayOfWeek() + weekStart;
+			// defineLocale also makes the new locale the global one
+			const globalLocale = moment.locale();
+			moment.defineLocale(name, { parentLocale: locale, week: { dow: weekStart, doy } });
+			moment.locale(globalLocale);
+		}
+		return name;
+	}
+
+	/**
+	 * Get the month name in the configured locale
+	 * @param month Month index (0-11)
+	 * @param short Whether to return the abbreviated name
+	 * @returns Month name
+	 */
+	private getMonthName(month: number, short = false): string {
+		const date = this.getMoment(new Date()).month(month);
+		return short ? date.localeData().monthsShort(date) : date.localeData().months(date);
+	}
+
+	/**
+	 * Get the day name in the configured locale
+	 * @param day Day index (0-6, starting with Sunday)
+	 * @param short Whether to return the abbreviated name
+	 * @returns Day name
+	 */
+	private getDayName(day: number, short = false): string {
+		const localeData = this.getMoment(new Date()).localeData();
+		return short ? localeData.weekdaysShort()[day] : localeData.weekdays()[day];
+	}
+
+	/**
+	 * Get the day of the year (1-366)
+	 * @param date Date object
+	 * @returns Day of year
+	 */
+	private getDayOfYear(date: Date): number {
+		const start = new Date(date.getFullYear(), 0, 0);
+		const diff = date.getTime() - start.getTime();
+		const oneDay = 1000 * 60 * 60 * 24;
+		return Math.floor(diff / oneDay);
+	}
+
+	/**
+	 * Get the week number of the year (1-53)
+	 * @param date Date object
+	 * @returns Week number
+	 */
+	private getWeekNumber(date: Date): number {
+		const d = new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()));
+		const dayNum = d.getUTCDay() || 7;
+		d.setUTCDate(d.getUTCDate() + 4 - dayNum);
+		const yearStart = new Date(Date.UTC(d.getUTCFullYear(), 0, 1));
+		return Math.ceil((((d.getTime() - yearStart.getTime()) / 86400000) + 1) / 7);
+	}
+
+	/**
+	 * Get the ISO week-numbering year, which differs from the calendar
+	 * year for days of week 1 in December and week 52/53 in January
+	 * @param date Date object
+	 * @returns ISO week-year
+	 */
+	private getWeekYear(date: Date): number {
+		const d = new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()));
+		const dayNum = d.getUTCDay() || 7;
+		d.setUTCDate(d.getUTCDate() + 4 - dayNum);
+		return d.getUTCFullYear();
+	}
+
+	/**
+	 * Generate a UUID v4
+	 * @returns UUID string
+	 */
+	private generateUUID(): string {
+		return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, function(c) {
 			const r = Math.random() * 16 | 0;
 			const v = c === 'x' ? r : (r & 0x3 | 0x8);
 			return v.toString(16);
@@ -422,40 +3471,96 @@ export default class TemplateFilenamePlugin extends Plugin {
 		for (let i = 0; i < length; i++) {
 			result += chars.charAt(Math.floor(Math.random() * chars.length));
 		}
-		return result;
+		return result;
+	}
+
+	/**
+	 * Create a new note with the given filename and content
+	 * @param filename The filename for the new note, may contain folders
+	 * @param content The content for the new note
+	 * @param folder The folder to create the note in (vault root if empty)
+	 * @param context Note context; if given, the content is processed as a template
+	 */
+	async createNote(filename: string, content: string, folder = '', context?: TemplateContext): Promise<TFile> {
+		const normalizedPath = this.getNotePath(filename, folder);
+
+		// Process the content now that the final name is known
+		if (context) {
+			context.title = normalizedPath.substring(normalizedPath.lastIndexOf('/') + 1).replace(/\.md$/, '');
+			content = this.processContent(content, context);
+		}
+
+		// Create the note, along with any missing folders
+		let file: TFile;
+		try {
+			const parentPath = normalizedPath.substring(0, normalizedPath.lastIndexOf('/'));
+			if (parentPath) {
+				await this.ensureFolder(parentPath);
+			}
+			this.createdPaths.add(normalizedPath);
+			file = await this.app.vault.create(normalizedPath, content);
+		} catch (error) {
+			this.createdPaths.delete(normalizedPath);
+			// Only show error message to user, don't log to console unnecessarily
+			new Notice(`Error creating note: ${error}`);
+			throw error;
+		}
+
+		// The note exists even if the counters can't be saved
+		if (context) {
+			await this.commitCounters(context).catch(error => new Notice(`Error saving counters: ${error}`));
+		}
+		return file;
 	}
 
 	/**
-	 * Create a new note with the given filename and content
-	 * @param filename The filename for the new note
-	 * @param content The content for the new note
+	 * Build the vault path of a note
+	 * @param filename The filename for the note, may contain folders
+	 * @param folder The folder of the note (vault root if empty)
+	 * @returns Normalized path, ending with .md
 	 */
-	async createNote(filename: string, content: string): Promise<TFile> {
+	getNotePath(filename: string, folder = ''): string {
 		// Ensure filename ends with .md
 		if (!filename.endsWith('.md')) {
 			filename += '.md';
 		}
 
+		// Place the note inside the target folder
+		folder = folder.trim().replace(/^\/+|\/+$/g, '');
+		if (folder) {
+			filename = `${folder}/${filename}`;
+		}
+
 		// Normalize the path to ensure cross-platform compatibility
-		const normalizedPath = normalizePath(filename);
+		return normalizePath(filename);
+	}
 
-		// Create the note
-		try {
-			const file = await this.app.vault.create(normalizedPath, content);
-			return file;
-		} catch (error) {
-			// Only show error message to user, don't log to console unnecessarily
-			new Notice(`Error creating note: ${error}`);
-			throw error;
+	/**
+	 * Create a folder and all of its missing parent folders
+	 * @param path Folder path relative to the vault root
+	 */
+	private async ensureFolder(path: string) {
+		let currentPath = '';
+		for (const segment of path.split('/')) {
+			currentPath = currentPath ? `${currentPath}/${segment}` : segment;
+			if (!this.app.vault.getAbstractFileByPath(currentPath)) {
+				await this.app.vault.createFolder(currentPath);
+			}
 		}
 	}
 }
 
 class TemplateFilenameModal extends Modal {
 	plugin: TemplateFilenamePlugin;
+	profileSelect: HTMLSelectElement;
 	templateInput: HTMLInputElement;
+	templateIssuesEl: HTMLElement;
 	contentInput: HTMLTextAreaElement;
+	contentFileInput: HTMLInputElement;
+	createButton: HTMLButtonElement;
 	previewEl: HTMLElement;
+	previewWarningEl: HTMLElement;
+	previewChangesEl: HTMLElement;
 
 	constructor(app: App, plugin: TemplateFilenamePlugin) {
 		super(app);
@@ -468,6 +3573,18 @@ class TemplateFilenameModal extends Modal {
 		// Title
 		contentEl.createEl('h2', { text: 'Create note with template filename' });
 		
+		// Profile selection
+		contentEl.createEl('label', { text: 'Profile:' }).setAttribute('for', 'profile-select');
+		this.profileSelect = contentEl.createEl('select', {
+			attr: { id: 'profile-select' },
+			cls: 'dropdown profile-select-field'
+		});
+		this.profileSelect.createEl('option', { text: 'Default', value: '' });
+		this.plugin.settings.profiles.forEach(profile => {
+			this.profileSelect.createEl('option', { text: profile.name, value: profile.id });
+		});
+		this.profileSelect.addEventListener('change', () => this.selectProfile());
+		
 		// Template input
 		contentEl.createEl('label', { text: 'Filename template:' }).setAttribute('for', 'template-input');
 		this.templateInput = contentEl.createEl('input', {
@@ -479,6 +3596,8 @@ class TemplateFilenameModal extends Modal {
 			cls: 'template-input-field'
 		});
 		this.templateInput.addEventListener('input', () => this.updatePreview());
+		new VariableSuggest(this.app, this.templateInput, this.plugin);
+		this.templateIssuesEl = contentEl.createEl('div', { cls: 'template-issues' });
 		
 		// Help text for template syntax
 		const helpText = contentEl.createEl('div', { cls: 'template-help' });
@@ -487,93 +3606,39 @@ class TemplateFilenameModal extends Modal {
 		const details = helpText.createEl('details');
 		details.createEl('summary', { text: 'Template syntax help' });
 		
-		// Date & Time
-		const dateTimeSection = details.createEl('div');
-		dateTimeSection.createEl('h4', { text: 'Date & time' });
-		
-		const dateTimeList = dateTimeSection.createEl('ul');
-		const dateTimeItems = [
-			{ name: '{YYYY}', desc: '4-digit year (e.g., 2025)' },
-			{ name: '{YY}', desc: '2-digit year (e.g., 25)' },
-			{ name: '{MM}', desc: '2-digit month (01-12)' },
-			{ name: '{M}', desc: 'Month without leading zero (1-12)' },
-			{ name: '{MMMM}', desc: 'Full month name (January, February...)' },
-			{ name: '{MMM}', desc: 'Short month name (Jan, Feb...)' },
-			{ name: '{DD}', desc: '2-digit day (01-31)' },
-			{ name: '{D}', desc: 'Day without leading zero (1-31)' },
-			{ name: '{DDD}', desc: 'Day of year (001-366)' },
-			{ name: '{dddd}', desc: 'Full weekday name (Monday, Tuesday...)' },
-			{ name: '{ddd}', desc: 'Short weekday name (Mon, Tue...)' },
-			{ name: '{WW}', desc: 'Week number of year (01-53)' },
-			{ name: '{Q}', desc: 'Quarter of year (1-4)' },
-			{ name: '{HH}', desc: '2-digit hour, 24-hour format (00-23)' },
-			{ name: '{H}', desc: 'Hour without leading zero (0-23)' },
-			{ name: '{mm}', desc: '2-digit minute (00-59)' },
-			{ name: '{m}', desc: 'Minute without leading zero (0-59)' },
-			{ name: '{ss}', desc: '2-digit second (00-59)' },
-			{ name: '{s}', desc: 'Second without leading zero (0-59)' },
-			{ name: '{SSS}', desc: '3-digit millisecond (000-999)' }
-		];
-		
-		this.createHelpList(dateTimeList, dateTimeItems);
-		
-		// Unique Identifiers
-		const idSection = details.createEl('div');
-		idSection.createEl('h4', { text: 'Unique identifiers & timestamps' });
-		
-		const idList = idSection.createEl('ul');
-		const idItems = [
-			{ name: '{random:N}', desc: 'Random string of N characters' },
-			{ name: '{uuid}', desc: 'Generate a UUID/GUID' },
-			{ name: '{shortid}', desc: 'Generate a shorter unique ID (8 chars)' },
-			{ name: '{unixtime:B}', desc: 'Unix timestamp in base B (2-36)' },
-			{ name: '{daytime:B}', desc: 'Seconds since midnight in base B (2-36)' },
-			{ name: '{hash:text}', desc: 'Create a hash of provided text' }
-		];
-		
-		this.createHelpList(idList, idItems);
-		
-		// Counter Variables
-		const counterSection = details.createEl('div');
-		counterSection.createEl('h4', { text: 'Counter variables' });
-		
-		const counterList = counterSection.createEl('ul');
-		const counterItems = [
-			{ name: '{counter}', desc: 'Global auto-incrementing counter' },
-			{ name: '{counter:name}', desc: 'Named counter (separate sequence)' },
-			{ name: '{counter:reset}', desc: 'Reset all counters' }
-		];
-		
-		this.createHelpList(counterList, counterItems);
-		
-		// System Variables
-		const systemSection = details.createEl('div');
-		systemSection.createEl('h4', { text: 'System variables' });
-		
-		const systemList = systemSection.createEl('ul');
-		const systemItems = [
-			{ name: '{hostname}', desc: 'Computer/device name' },
-			{ name: '{username}', desc: 'Current user\'s name' }
-		];
+		// Variables, by section
+		for (const section of VARIABLE_SECTIONS) {
+			const sectionItems = this.plugin.getVariableHelp(section);
+			if (sectionItems.length === 0) {
+				continue;
+			}
+			
+			const sectionEl = details.createEl('div');
+			sectionEl.createEl('h4', { text: section });
+			
+			const sectionList = sectionEl.createEl('ul');
+			this.createHelpList(sectionList, sectionItems);
+		}
 		
-		this.createHelpList(systemList, systemItems);
+		// Filters
+		const filterSection = details.createEl('div');
+		filterSection.createEl('h4', { text: 'Filters' });
 		
-		// Text Formatting
-		const formatSection = details.createEl('div');
-		formatSection.createEl('h4', { text: 'Text formatting' });
+		const filterList = filterSection.createEl('ul');
+		this.createHelpList(filterList, FILTER_HELP);
 		
-		const formatList = formatSection.createEl('ul');
-		const formatItems = [
-			{ name: '{lowercase:text}', desc: 'Convert text to lowercase' },
-			{ name: '{uppercase:text}', desc: 'Convert text to uppercase' },
-			{ name: '{slugify:text}', desc: 'Convert text to URL-friendly slug' }
-		];
+		// Nesting and escaping
+		const syntaxSection = details.createEl('div');
+		syntaxSection.createEl('h4', { text: 'Nesting and escaping' });
 		
-		this.createHelpList(formatList, formatItems);
+		const syntaxList = syntaxSection.createEl('ul');
+		this.createHelpList(syntaxList, SYNTAX_HELP);
 		
 		// Preview
 		contentEl.createEl('label', { text: 'Preview:' });
 		this.previewEl = contentEl.createEl('div', { cls: 'template-preview' });
+		this.previewWarningEl = contentEl.createEl('div', { cls: 'template-preview-warning' });
+		this.previewChangesEl = contentEl.createEl('div', { cls: 'template-preview-changes' });
 		
 		// Note content
 		contentEl.createEl('label', { text: 'Note content:' }).setAttribute('for', 'content-input');
@@ -583,14 +3648,29 @@ class TemplateFilenameModal extends Modal {
 			value: this.plugin.settings.defaultContent
 		});
 		
+		// Template file, used instead of the content above
+		contentEl.createEl('label', { text: 'Template file (optional):' }).setAttribute('for', 'content-file-input');
+		this.contentFileInput = contentEl.createEl('input', {
+			attr: {
+				type: 'text',
+				id: 'content-file-input',
+				placeholder: 'Use the note content above'
+			},
+			value: this.plugin.settings.defaultContentFile,
+			cls: 'template-input-field'
+		});
+		new TemplateFileSuggest(this.app, this.contentFileInput, this.plugin);
+		this.contentFileInput.addEventListener('input', () => this.updateContentInput());
+		this.updateContentInput();
+		
 		// Buttons
 		const buttonContainer = contentEl.createEl('div', { cls: 'button-container' });
 		
 		const cancelButton = buttonContainer.createEl('button', { text: 'Cancel' });
 		cancelButton.addEventListener('click', () => this.close());
 		
-		const createButton = buttonContainer.createEl('button', { text: 'Create', cls: 'mod-cta' });
-		createButton.addEventListener('click', () => this.createNote());
+		this.createButton = buttonContainer.createEl('button', { text: 'Create', cls: 'mod-cta' });
+		this.createButton.addEventListener('click', () => this.createNote());
 		
 		// Update preview on initial load
 		this.updatePreview();
@@ -604,46 +3684,577 @@ class TemplateFilenameModal extends Modal {
 		});
 	}
 
-	updatePreview() {
-		const template = this.templateInput.value;
-		const processedFilename = this.plugin.processTemplate(template);
-		this.previewEl.setText(processedFilename + '.md');
+	/**
+	 * Fill the template and content inputs from the selected profile
+	 */
+	selectProfile() {
+		const profile = this.plugin.getProfile(this.profileSelect.value);
+		this.templateInput.value = profile ? profile.template : this.plugin.settings.defaultTemplate;
+		this.contentInput.value = profile ? profile.content : this.plugin.settings.defaultContent;
+		this.contentFileInput.value = profile ? profile.contentFile : this.plugin.settings.defaultContentFile;
+		this.updateContentInput();
+		this.updatePreview();
+	}
+
+	/**
+	 * Disable the content input while a template file replaces it
+	 */
+	updateContentInput() {
+		this.contentInput.disabled = this.contentFileInput.value.trim() !== '';
+	}
+
+	updatePreview() {
+		const template = this.templateInput.value;
+		
+		// Mistakes in the template have to be fixed before creating the note
+		const issues = this.plugin.validateTemplate(template);
+		this.plugin.displayTemplateIssues(this.templateIssuesEl, template, issues);
+		this.templateInput.toggleClass('is-invalid', issues.length > 0);
+		this.createButton.disabled = issues.length > 0;
+		
+		const context = this.plugin.createContext(true);
+		const { folder, location } = this.plugin.getNoteTemplate(this.profileSelect.value);
+		const baseFolder = this.plugin.getBaseFolder(location, folder, context);
+		const path = this.plugin.getNotePath(this.plugin.generateFilename(template, baseFolder, context), baseFolder);
+		this.previewEl.setText(path);
+		
+		// Warn if the name is already taken
+		if (this.plugin.findExisting(path)) {
+			const policy = COLLISION_POLICIES[this.plugin.settings.collisionPolicy];
+			this.previewWarningEl.setText(`A note with this name already exists. ${policy}.`);
+		} else {
+			this.previewWarningEl.setText('');
+		}
+		
+		// Show what sanitizing changed in the generated folder and name
+		this.previewChangesEl.empty();
+		if (context.sanitizedFolder) {
+			this.previewChangesEl.createDiv({ text: `Generated folder: ${context.sanitizedFolder.from}` });
+			const changeList = this.previewChangesEl.createEl('ul');
+			context.sanitizedFolder.changes.forEach(change => changeList.createEl('li', { text: change }));
+		}
+		if (context.sanitized) {
+			this.previewChangesEl.createDiv({ text: `Generated name: ${context.sanitized.from}` });
+			const changeList = this.previewChangesEl.createEl('ul');
+			context.sanitized.changes.forEach(change => changeList.createEl('li', { text: change }));
+		}
+	}
+
+	async createNote() {
+		const template = this.templateInput.value;
+		const content = this.contentInput.value;
+		const contentFile = this.contentFileInput.value.trim();
+		const profile = this.plugin.getProfile(this.profileSelect.value);
+		const note = Object.assign({}, this.plugin.getNoteTemplate(this.profileSelect.value), { template, content, contentFile });
+		
+		const file = await this.plugin.createNoteFromTemplate(note);
+		if (file) {
+			// Profiles are only edited from the settings tab, so only
+			// remember the template and content when no profile is selected
+			if (!profile) {
+				// Save template as default if changed
+				if (this.plugin.settings.defaultTemplate !== template) {
+					this.plugin.settings.defaultTemplate = template;
+					await this.plugin.saveSettings();
+				}
+				
+				// Save content as default if changed
+				if (this.plugin.settings.defaultContent !== content) {
+					this.plugin.settings.defaultContent = content;
+					await this.plugin.saveSettings();
+				}
+				
+				// Save template file as default if changed
+				if (this.plugin.settings.defaultContentFile !== contentFile) {
+					this.plugin.settings.defaultContentFile = contentFile;
+					await this.plugin.saveSettings();
+				}
+			}
+			
+			// Close the modal
+			this.close();
+		}
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
+
+class PromptModal extends Modal {
+	label: string;
+	defaultValue: string;
+	private resolve: (value: string | null) => void;
+
+	constructor(app: App, label: string, defaultValue: string) {
+		super(app);
+		this.label = label;
+		this.defaultValue = defaultValue;
+	}
+
+	/**
+	 * Open the modal and wait for the user's answer
+	 * @returns The entered text, or null if the user cancelled
+	 */
+	ask(): Promise<string | null> {
+		return new Promise(resolve => {
+			this.resolve = resolve;
+			this.open();
+		});
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		
+		contentEl.createEl('h2', { text: this.label });
+		
+		const input = contentEl.createEl('input', {
+			attr: { type: 'text' },
+			value: this.defaultValue,
+			cls: 'template-input-field'
+		});
+		input.addEventListener('keydown', (event) => {
+			if (event.key === 'Enter' && !event.isComposing) {
+				event.preventDefault();
+				this.finish(input.value);
+			}
+		});
+		
+		const buttonContainer = contentEl.createEl('div', { cls: 'button-container' });
+		
+		const cancelButton = buttonContainer.createEl('button', { text: 'Cancel' });
+		cancelButton.addEventListener('click', () => this.close());
+		
+		const okButton = buttonContainer.createEl('button', { text: 'OK', cls: 'mod-cta' });
+		okButton.addEventListener('click', () => this.finish(input.value));
+		
+		input.focus();
+		input.select();
+	}
+
+	finish(value: string) {
+		this.resolve(value);
+		this.close();
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+		
+		// Resolving twice is a no-op, so this only cancels if nothing was entered
+		this.resolve(null);
+	}
+}
+
+class SelectModal extends SuggestModal<string> {
+	options: string[];
+	private resolve: (value: string | null) => void;
+
+	constructor(app: App, label: string, options: string[]) {
+		super(app);
+		this.options = options;
+		this.setPlaceholder(label);
+	}
+
+	/**
+	 * Open the modal and wait for the user's choice
+	 * @returns The chosen option, or null if the user cancelled
+	 */
+	ask(): Promise<string | null> {
+		return new Promise(resolve => {
+			this.resolve = resolve;
+			this.open();
+		});
+	}
+
+	getSuggestions(query: string): string[] {
+		const lowerQuery = query.toLowerCase();
+		return this.options.filter(option => option.toLowerCase().includes(lowerQuery));
+	}
+
+	renderSuggestion(option: string, el: HTMLElement) {
+		el.setText(option);
+	}
+
+	onChooseSuggestion(option: string) {
+		this.resolve(option);
+	}
+
+	onClose() {
+		// The modal closes before the chosen suggestion is reported,
+		// so only cancel once that had a chance to happen
+		setTimeout(() => this.resolve(null), 0);
+	}
+}
+
+/**
+ * Suggests variables while typing a template, as soon as a { is typed.
+ * Choosing one inserts it with its parameter placeholders, the first of
+ * them selected.
+ */
+class VariableSuggest extends AbstractInputSuggest<VariableInfo> {
+	plugin: TemplateFilenamePlugin;
+	private inputEl: HTMLInputElement;
+
+	constructor(app: App, inputEl: HTMLInputElement, plugin: TemplateFilenamePlugin) {
+		super(app, inputEl);
+		this.inputEl = inputEl;
+		this.plugin = plugin;
+	}
+
+	/**
+	 * Find the variable being typed before the cursor
+	 * @returns Position of its opening brace and the name typed so far, or
+	 * null if the cursor is not in a variable name
+	 */
+	private getTypedVariable(): { start: number, query: string } | null {
+		const cursor = this.inputEl.selectionStart === null ? this.inputEl.value.length : this.inputEl.selectionStart;
+		const match = /\{([^{}:,|"\\]*)$/.exec(this.inputEl.value.substring(0, cursor));
+		if (!match || (match.index > 0 && this.inputEl.value[match.index - 1] === '\\')) {
+			return null;
+		}
+		return { start: match.index, query: match[1] };
+	}
+
+	getSuggestions(): VariableInfo[] {
+		const typed = this.getTypedVariable();
+		if (!typed) {
+			return [];
+		}
+
+		// Names starting with the query first, then the rest of the matches
+		const query = typed.query.toLowerCase();
+		const variables = this.plugin.getVariables().filter(variable =>
+			variable.syntax.toLowerCase().includes(query) || variable.description.toLowerCase().includes(query));
+		return variables.filter(variable => variable.name.toLowerCase().startsWith(query))
+			.concat(variables.filter(variable => !variable.name.toLowerCase().startsWith(query)));
+	}
+
+	renderSuggestion(variable: VariableInfo, el: HTMLElement) {
+		el.addClass('template-variable-suggestion');
+		const titleEl = el.createDiv();
+		titleEl.createSpan({ text: variable.syntax, cls: 'template-variable-syntax' });
+		const sample = this.plugin.getSampleValue(variable);
+		if (sample) {
+			titleEl.createSpan({ text: sample, cls: 'template-variable-sample' });
+		}
+		el.createDiv({ text: variable.description, cls: 'template-variable-description' });
+	}
+
+	selectSuggestion(variable: VariableInfo) {
+		const typed = this.getTypedVariable();
+		if (!typed) {
+			this.close();
+			return;
+		}
+
+		// Replace the typed part, and a closing brace right after it
+		const value = this.inputEl.value;
+		const cursor = typed.start + 1 + typed.query.length;
+		const end = value[cursor] === '}' ? cursor + 1 : cursor;
+		this.inputEl.value = value.substring(0, typed.start) + variable.syntax + value.substring(end);
+
+		// Select the first parameter placeholder, or put the cursor after the variable
+		const colon = variable.syntax.indexOf(':');
+		if (colon !== -1) {
+			const paramEnd = variable.syntax.substring(colon).search(/[,}]/) + colon;
+			this.inputEl.setSelectionRange(typed.start + colon + 1, typed.start + paramEnd);
+		} else {
+			const position = typed.start + variable.syntax.length;
+			this.inputEl.setSelectionRange(position, position);
+		}
+		this.inputEl.focus();
+
+		// Let the input's listeners, e.g. a setting's onChange, see the value
+		this.inputEl.dispatchEvent(new Event('input'));
+		this.close();
+	}
+}
+
+/**
+ * Suggests notes for a template file input, listing the notes in the
+ * template folders of the Templates and Templater plugins first
+ */
+class TemplateFileSuggest extends AbstractInputSuggest<TFile> {
+	plugin: TemplateFilenamePlugin;
+	private inputEl: HTMLInputElement;
+
+	constructor(app: App, inputEl: HTMLInputElement, plugin: TemplateFilenamePlugin) {
+		super(app, inputEl);
+		this.inputEl = inputEl;
+		this.plugin = plugin;
+	}
+
+	getSuggestions(query: string): TFile[] {
+		const lowerQuery = query.toLowerCase();
+		const folders = this.plugin.getTemplateFolders();
+		const inTemplateFolder = (file: TFile) => folders.some(folder => file.path.startsWith(folder + '/'));
+		return this.app.vault.getMarkdownFiles()
+			.filter(file => file.path.toLowerCase().includes(lowerQuery))
+			.sort((a, b) => Number(inTemplateFolder(b)) - Number(inTemplateFolder(a)) || a.path.localeCompare(b.path));
+	}
+
+	renderSuggestion(file: TFile, el: HTMLElement) {
+		el.setText(file.path);
+	}
+
+	selectSuggestion(file: TFile) {
+		this.setValue(file.path);
+		// Let the input's listeners, e.g. a setting's onChange, see the value
+		this.inputEl.dispatchEvent(new Event('input'));
+		this.close();
+	}
+}
+
+class CollisionModal extends Modal {
+	path: string;
+	private resolve: (policy: CollisionPolicy | null) => void;
+
+	constructor(app: App, path: string) {
+		super(app);
+		this.path = path;
+	}
+
+	/**
+	 * Open the modal and wait for the user's choice
+	 * @returns The chosen policy, or null if the user cancelled
+	 */
+	choose(): Promise<CollisionPolicy | null> {
+		return new Promise(resolve => {
+			this.resolve = resolve;
+			this.open();
+		});
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		
+		contentEl.createEl('h2', { text: 'Note already exists' });
+		contentEl.createEl('p', { text: `A note named "${this.path}" already exists.` });
+		
+		const buttonContainer = contentEl.createEl('div', { cls: 'button-container' });
+		
+		const cancelButton = buttonContainer.createEl('button', { text: 'Cancel' });
+		cancelButton.addEventListener('click', () => this.close());
+		
+		const openButton = buttonContainer.createEl('button', { text: 'Open existing' });
+		openButton.addEventListener('click', () => this.finish('open'));
+		
+		const suffixButton = buttonContainer.createEl('button', { text: 'Create with number', cls: 'mod-cta' });
+		suffixButton.addEventListener('click', () => this.finish('suffix'));
+	}
+
+	finish(policy: CollisionPolicy) {
+		this.resolve(policy);
+		this.close();
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+		
+		// Resolving twice is a no-op, so this only cancels if nothing was chosen
+		this.resolve(null);
+	}
+}
+
+class BulkRenameModal extends Modal {
+	plugin: TemplateFilenamePlugin;
+	source: 'folder' | 'search' = 'folder';
+	folder: string;
+	recursive = false;
+	template: string;
+	dateSource: BulkDateSource = 'ctime';
+	frontmatterKey = 'date';
+	resultEl: HTMLElement;
+	renameButton: HTMLButtonElement;
+	private entries: BulkRenameEntry[] = [];
+	private context: TemplateContext | null = null;
+
+	constructor(app: App, plugin: TemplateFilenamePlugin, folder: string) {
+		super(app);
+		this.plugin = plugin;
+		this.folder = folder;
+		this.template = plugin.settings.defaultTemplate;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		
+		contentEl.createEl('h2', { text: 'Rename notes with template' });
+		
+		const searchResults = this.plugin.getSearchResults();
+		new Setting(contentEl)
+			.setName('Notes')
+			.addDropdown(dropdown => dropdown
+				.addOption('folder', 'Notes in a folder')
+				.addOption('search', `Current search results (${searchResults ? searchResults.length : 'unavailable'})`)
+				.setValue(this.source)
+				.onChange((value: 'folder' | 'search') => {
+					this.source = value;
+					this.clearPreview();
+				}));
+		
+		new Setting(contentEl)
+			.setName('Folder')
+			.addText(text => text
+				.setPlaceholder('Vault root')
+				.setValue(this.folder)
+				.onChange(value => {
+					this.folder = value;
+					this.clearPreview();
+				}))
+			.addToggle(toggle => toggle
+				.setTooltip('Include subfolders')
+				.setValue(this.recursive)
+				.onChange(value => {
+					this.recursive = value;
+					this.clearPreview();
+				}));
+		
+		let templateInput: HTMLInputElement;
+		new Setting(contentEl)
+			.setName('Profile')
+			.addDropdown(dropdown => {
+				dropdown.addOption('', 'Default template');
+				this.plugin.settings.profiles.forEach(profile => dropdown.addOption(profile.id, profile.name));
+				dropdown.onChange(value => {
+					this.template = this.plugin.getNoteTemplate(value).template;
+					templateInput.value = this.template;
+					this.clearPreview();
+				});
+			});
+		
+		new Setting(contentEl)
+			.setName('Filename template')
+			.setDesc('{title} is the current name of a note, {fm:key} one of its properties')
+			.addText(text => {
+				templateInput = text.inputEl;
+				new VariableSuggest(this.app, text.inputEl, this.plugin);
+				text
+					.setValue(this.template)
+					.onChange(value => {
+						this.template = value;
+						this.clearPreview();
+					});
+			});
+		
+		new Setting(contentEl)
+			.setName('Date of a note')
+			.setDesc('The date that date and time variables refer to')
+			.addDropdown(dropdown => dropdown
+				.addOptions(BULK_DATE_SOURCES)
+				.setValue(this.dateSource)
+				.onChange((value: BulkDateSource) => {
+					this.dateSource = value;
+					this.clearPreview();
+				}))
+			.addText(text => text
+				.setPlaceholder('Property')
+				.setValue(this.frontmatterKey)
+				.onChange(value => {
+					this.frontmatterKey = value.trim();
+					this.clearPreview();
+				}));
+		
+		this.resultEl = contentEl.createDiv({ cls: 'template-bulk-rename' });
+		
+		// Buttons
+		const buttonContainer = contentEl.createEl('div', { cls: 'button-container' });
+		
+		const cancelButton = buttonContainer.createEl('button', { text: 'Cancel' });
+		cancelButton.addEventListener('click', () => this.close());
+		
+		const previewButton = buttonContainer.createEl('button', { text: 'Preview' });
+		previewButton.addEventListener('click', () => this.preview());
+		
+		this.renameButton = buttonContainer.createEl('button', { text: 'Rename', cls: 'mod-cta' });
+		this.renameButton.addEventListener('click', () => this.rename());
+		
+		this.clearPreview();
+	}
+
+	/**
+	 * Get the notes to rename
+	 * @returns The notes in the folder or the search results
+	 */
+	getFiles(): TFile[] {
+		if (this.source !== 'search') {
+			return this.plugin.getFolderNotes(this.folder, this.recursive);
+		}
+
+		const results = this.plugin.getSearchResults();
+		if (!results) {
+			new Notice('The search results can\'t be read in this version of Obsidian');
+			return [];
+		}
+		return results;
+	}
+
+	/**
+	 * Forget the preview, options changed since it was made
+	 */
+	clearPreview() {
+		this.entries = [];
+		this.context = null;
+		this.resultEl.empty();
+		this.resultEl.createEl('p', { text: 'Preview the new names before renaming.', cls: 'setting-item-description' });
+		this.renameButton.disabled = true;
 	}
 
-	async createNote() {
-		const template = this.templateInput.value;
-		const content = this.contentInput.value;
-		const processedFilename = this.plugin.processTemplate(template);
-		
-		try {
-			const file = await this.plugin.createNote(processedFilename, content);
-			
-			// Save template as default if changed
-			if (this.plugin.settings.defaultTemplate !== template) {
-				this.plugin.settings.defaultTemplate = template;
-				await this.plugin.saveSettings();
-			}
-			
-			// Save content as default if changed
-			if (this.plugin.settings.defaultContent !== content) {
-				this.plugin.settings.defaultContent = content;
-				await this.plugin.saveSettings();
-			}
-			
-			// Show success notification
-			new Notice(`Created note: ${file.name}`);
-			
-			// Open the new note using proper API
-			const activeLeaf = this.app.workspace.getLeaf(false);
-			if (activeLeaf) {
-				await activeLeaf.openFile(file);
+	/**
+	 * Work out the new names and list them, without renaming anything
+	 */
+	async preview() {
+		const files = this.getFiles();
+		const context = this.plugin.createContext();
+		if (files.length === 0 || !(await this.plugin.prepareContext([this.template], context))) {
+			this.clearPreview();
+			if (files.length === 0) {
+				this.resultEl.empty();
+				this.resultEl.createEl('p', { text: 'No notes found.', cls: 'setting-item-description' });
 			}
-			
-			// Close the modal
-			this.close();
-		} catch (error) {
-			// Already handled in the plugin.createNote method
+			return;
+		}
+
+		this.context = context;
+		this.entries = this.plugin.planBulkRename(files, this.template, this.dateSource, this.frontmatterKey, context);
+
+		const count = (status: BulkRenameEntry['status']) => this.entries.filter(entry => entry.status === status).length;
+		const renamed = count('rename');
+		this.resultEl.empty();
+		this.resultEl.createEl('p', {
+			text: `${renamed} of ${this.entries.length} notes will be renamed. ${count('unchanged')} already have their name, ${count('taken')} are skipped because the name is taken.`
+		});
+
+		const table = this.resultEl.createEl('table');
+		const header = table.createEl('thead').createEl('tr');
+		header.createEl('th', { text: 'Current name' });
+		header.createEl('th', { text: 'New name' });
+		header.createEl('th');
+		const body = table.createEl('tbody');
+		for (const entry of this.entries) {
+			const row = body.createEl('tr', { cls: `template-bulk-rename-${entry.status}` });
+			row.createEl('td', { text: entry.file.path });
+			row.createEl('td', { text: entry.newPath });
+			row.createEl('td', { text: entry.status === 'taken' ? 'Name taken' : entry.status === 'unchanged' ? 'Unchanged' : '' });
+		}
+
+		this.renameButton.disabled = renamed === 0;
+	}
+
+	/**
+	 * Rename the notes as previewed
+	 */
+	async rename() {
+		if (!this.context) {
+			return;
 		}
+		this.renameButton.disabled = true;
+		const renamed = await this.plugin.applyBulkRename(this.entries, this.context);
+		new Notice(`Renamed ${renamed} ${renamed === 1 ? 'note' : 'notes'}`);
+		this.close();
 	}
 
 	onClose() {
@@ -666,16 +4277,18 @@ class TemplateFilenameSettingTab extends PluginSettingTab {
 		containerEl.addClass('template-filename-settings');
 
 		// General settings (no heading per guidelines)
-		new Setting(containerEl)
+		const templateSetting = new Setting(containerEl)
 			.setName('Default filename template')
 			.setDesc('The default template to use for new notes')
-			.addText(text => text
+			.addText(text => this.addVariableSuggest(text)
 				.setPlaceholder('YYYY-MM-DD_HH-mm-ss')
 				.setValue(this.plugin.settings.defaultTemplate)
 				.onChange(async (value) => {
 					this.plugin.settings.defaultTemplate = value;
+					validateTemplate(value);
 					await this.plugin.saveSettings();
 				}));
+		const validateTemplate = this.addTemplateValidation(templateSetting, this.plugin.settings.defaultTemplate);
 
 		new Setting(containerEl)
 			.setName('Default note content')
@@ -688,92 +4301,362 @@ class TemplateFilenameSettingTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 				}));
 
+		new Setting(containerEl)
+			.setName('Default template file')
+			.setDesc('A note to use as content instead of the text above. Its variables and Templates placeholders are processed, then Templater runs on the new note if it is installed.')
+			.addText(text => {
+				new TemplateFileSuggest(this.app, text.inputEl, this.plugin);
+				text
+					.setPlaceholder('Example: templates/daily.md')
+					.setValue(this.plugin.settings.defaultContentFile)
+					.onChange(async (value) => {
+						this.plugin.settings.defaultContentFile = value.trim();
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName('Default location for new notes')
+			.setDesc('Where notes created with the default template are placed')
+			.addDropdown(dropdown => dropdown
+				.addOptions(NOTE_LOCATIONS)
+				.setValue(this.plugin.settings.defaultLocation)
+				.onChange(async (value: NoteLocation) => {
+					this.plugin.settings.defaultLocation = value;
+					await this.plugin.saveSettings();
+				}));
+
+		const folderSetting = new Setting(containerEl)
+			.setName('Default folder')
+			.setDesc('Folder for new notes, relative to the vault root. Supports template variables; missing folders are created.')
+			.addText(text => this.addVariableSuggest(text)
+				.setPlaceholder('Example: journal/{YYYY}')
+				.setValue(this.plugin.settings.defaultFolder)
+				.onChange(async (value) => {
+					this.plugin.settings.defaultFolder = value;
+					validateFolder(value);
+					await this.plugin.saveSettings();
+				}));
+		const validateFolder = this.addTemplateValidation(folderSetting, this.plugin.settings.defaultFolder);
+
+		new Setting(containerEl)
+			.setName('Open new notes')
+			.setDesc('Where to open notes created with the default template')
+			.addDropdown(dropdown => dropdown
+				.addOptions(OPEN_IN)
+				.setValue(this.plugin.settings.defaultOpenIn)
+				.onChange(async (value: OpenIn) => {
+					this.plugin.settings.defaultOpenIn = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('View')
+			.setDesc('Whether new notes open for editing or reading')
+			.addDropdown(dropdown => dropdown
+				.addOptions(VIEW_MODES)
+				.setValue(this.plugin.settings.defaultViewMode)
+				.onChange(async (value: ViewMode) => {
+					this.plugin.settings.defaultViewMode = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Cursor')
+			.setDesc('Where to place the cursor if the content has no {cursor} marker')
+			.addDropdown(dropdown => dropdown
+				.addOptions(CURSOR_POSITIONS)
+				.setValue(this.plugin.settings.defaultCursorPosition)
+				.onChange(async (value: CursorPosition) => {
+					this.plugin.settings.defaultCursorPosition = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('When a note already exists')
+			.setDesc('What to do if the generated filename is already taken')
+			.addDropdown(dropdown => dropdown
+				.addOptions(COLLISION_POLICIES)
+				.setValue(this.plugin.settings.collisionPolicy)
+				.onChange(async (value: CollisionPolicy) => {
+					this.plugin.settings.collisionPolicy = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('After creating a note')
+			.setDesc('Whether to insert a link to the new note into the note being edited, and whether to open the new note')
+			.addDropdown(dropdown => dropdown
+				.addOptions(LINK_BEHAVIORS)
+				.setValue(this.plugin.settings.linkBehavior)
+				.onChange(async (value: LinkBehavior) => {
+					this.plugin.settings.linkBehavior = value;
+					await this.plugin.saveSettings();
+				}));
+
+		// Filenames
+		new Setting(containerEl)
+			.setName('Filenames')
+			.setDesc('Generated filenames are made safe for all platforms. The preview in the modal shows what was changed.')
+			.setHeading();
+
+		new Setting(containerEl)
+			.setName('Replacement character')
+			.setDesc('Replaces characters that are not allowed in filenames on some platforms: \\ : * ? " < > |. Leave empty to remove them.')
+			.addText(text => text
+				.setPlaceholder('Nothing')
+				.setValue(this.plugin.settings.filenameReplacement)
+				.onChange(async (value) => {
+					// The replacement must not be a disallowed character itself
+					this.plugin.settings.filenameReplacement = Array.from(value)
+						.filter(char => !ILLEGAL_FILENAME_CHARACTERS.includes(char) && char !== '/')
+						.join('');
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Maximum filename length')
+			.setDesc('Longer file and folder names are shortened, counting the .md extension. 0 for no limit.')
+			.addText(text => text
+				.setPlaceholder('200')
+				.setValue(this.plugin.settings.maxFilenameLength.toString())
+				.onChange(async (value) => {
+					const length = parseInt(value);
+					this.plugin.settings.maxFilenameLength = isNaN(length) || length < 0 ? DEFAULT_SETTINGS.maxFilenameLength : length;
+					await this.plugin.saveSettings();
+				}));
+
+		// Dates
+		new Setting(containerEl).setName('Dates').setHeading();
+
+		new Setting(containerEl)
+			.setName('Date locale')
+			.setDesc('Language of month and day names')
+			.addDropdown(dropdown => {
+				dropdown.addOption('', `Obsidian's language (${moment.locale()})`);
+				moment.locales().forEach(locale => dropdown.addOption(locale, locale));
+				dropdown
+					.setValue(this.plugin.settings.locale)
+					.onChange(async (value) => {
+						this.plugin.settings.locale = value;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName('First day of the week')
+			.setDesc('Used for locale week numbers, such as w in {date:w}, and by the "start of week" and "end of week" date offsets')
+			.addDropdown(dropdown => {
+				dropdown.addOption('-1', 'Locale default');
+				moment.localeData('en').weekdays().forEach((day, index) => dropdown.addOption(index.toString(), day));
+				dropdown
+					.setValue(this.plugin.settings.weekStart.toString())
+					.onChange(async (value) => {
+						this.plugin.settings.weekStart = parseInt(value);
+						await this.plugin.saveSettings();
+					});
+			});
+
+		// This device
+		new Setting(containerEl)
+			.setName('This device')
+			.setDesc('Names used by {hostname} and {username}. They are stored on this device only and not synced.')
+			.setHeading();
+
+		new Setting(containerEl)
+			.setName('Device name')
+			.setDesc('Leave empty to use the computer name on desktop or the platform on mobile')
+			.addText(text => text
+				.setPlaceholder(this.app.loadLocalStorage(DEVICE_NAME_KEY) ? '' : this.plugin.getHostname())
+				.setValue(this.app.loadLocalStorage(DEVICE_NAME_KEY) || '')
+				.onChange((value) => {
+					this.app.saveLocalStorage(DEVICE_NAME_KEY, value.trim() || null);
+				}));
+
+		new Setting(containerEl)
+			.setName('User name')
+			.setDesc('Leave empty to use the name of the logged in user on desktop')
+			.addText(text => text
+				.setPlaceholder(this.app.loadLocalStorage(USER_NAME_KEY) ? '' : this.plugin.getUsername())
+				.setValue(this.app.loadLocalStorage(USER_NAME_KEY) || '')
+				.onChange((value) => {
+					this.app.saveLocalStorage(USER_NAME_KEY, value.trim() || null);
+				}));
+
+		// Profiles
+		new Setting(containerEl)
+			.setName('Profiles')
+			.setDesc('Named templates, each with its own command')
+			.setHeading();
+
+		this.plugin.settings.profiles.forEach((profile, index) => {
+			this.displayProfile(containerEl, profile, index);
+		});
+
+		new Setting(containerEl)
+			.addButton(button => button
+				.setButtonText('Add profile')
+				.setCta()
+				.onClick(async () => {
+					this.plugin.addProfile();
+					await this.saveProfiles();
+					this.display();
+				}));
+
+		// Custom variables
+		new Setting(containerEl)
+			.setName('Custom variables')
+			.setDesc('Variables for conventions shared by several templates. A constant is inserted as it is, an alias is processed like a template, and a JavaScript variable returns its value from a script.')
+			.setHeading();
+
+		new Setting(containerEl)
+			.setName('Run JavaScript variables on this device')
+			.setDesc('Scripts run with full access to Obsidian and your vault, like a plugin, and are not sandboxed. A script that never finishes freezes Obsidian. Only turn this on for scripts you wrote or trust. This is stored on this device only and not synced.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.scriptsAllowed())
+				.onChange(value => {
+					this.app.saveLocalStorage(ALLOW_SCRIPTS_KEY, value ? 'true' : null);
+				}));
+
+		this.plugin.settings.userVariables.forEach((variable, index) => {
+			this.displayUserVariable(containerEl, variable, index);
+		});
+
+		new Setting(containerEl)
+			.addButton(button => button
+				.setButtonText('Add variable')
+				.setCta()
+				.onClick(async () => {
+					this.plugin.settings.userVariables.push({ name: '', type: 'constant', value: '' });
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		// Extract selection
+		new Setting(containerEl)
+			.setName('Extract selection')
+			.setDesc('The "Extract selection into new note" command moves the selected text into a new note and links to it')
+			.setHeading();
+
+		new Setting(containerEl)
+			.setName('Profile for extracted notes')
+			.setDesc('Filename template and location of extracted notes')
+			.addDropdown(dropdown => {
+				dropdown.addOption('', 'Default template');
+				this.plugin.settings.profiles.forEach(profile => dropdown.addOption(profile.id, profile.name));
+				dropdown
+					.setValue(this.plugin.getProfile(this.plugin.settings.extractProfile) ? this.plugin.settings.extractProfile : '')
+					.onChange(async (value) => {
+						this.plugin.settings.extractProfile = value;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName('Replace selection with')
+			.addDropdown(dropdown => dropdown
+				.addOption('link', 'Link to the new note')
+				.addOption('embed', 'Embed of the new note')
+				.setValue(this.plugin.settings.extractLinkStyle)
+				.onChange(async (value: 'link' | 'embed') => {
+					this.plugin.settings.extractLinkStyle = value;
+					await this.plugin.saveSettings();
+				}));
+
+		// Automatic renaming
+		new Setting(containerEl)
+			.setName('Automatic renaming')
+			.setDesc('Rename notes created outside this plugin, e.g. with "New note", by clicking a link to a missing note, or by other plugins. Links to renamed notes are updated.')
+			.setHeading();
+
+		new Setting(containerEl)
+			.setName('Rename new notes')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.autoRename)
+				.onChange(async (value) => {
+					this.plugin.settings.autoRename = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Profile for renamed notes')
+			.setDesc('Filename template of renamed notes. Notes stay in their folder.')
+			.addDropdown(dropdown => {
+				dropdown.addOption('', 'Default template');
+				this.plugin.settings.profiles.forEach(profile => dropdown.addOption(profile.id, profile.name));
+				dropdown
+					.setValue(this.plugin.getProfile(this.plugin.settings.autoRenameProfile) ? this.plugin.settings.autoRenameProfile : '')
+					.onChange(async (value) => {
+						this.plugin.settings.autoRenameProfile = value;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName('Rename untitled notes')
+			.setDesc('Rename new notes named "Untitled", "Untitled 1"...')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.autoRenameUntitled)
+				.onChange(async (value) => {
+					this.plugin.settings.autoRenameUntitled = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Names of untitled notes')
+			.setDesc('One name per line. Obsidian names new notes in its own language, e.g. "Unbenannt" in German or "Sans titre" in French.')
+			.addTextArea(text => text
+				.setPlaceholder('Untitled')
+				.setValue(this.plugin.settings.untitledNames.join('\n'))
+				.onChange(async (value) => {
+					this.plugin.settings.untitledNames = value.split('\n').map(name => name.trim()).filter(name => name);
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Rename all new notes in folders')
+			.setDesc('One folder per line, relative to the vault root. Subfolders are included.')
+			.addTextArea(text => text
+				.setPlaceholder('inbox')
+				.setValue(this.plugin.settings.autoRenameFolders.join('\n'))
+				.onChange(async (value) => {
+					this.plugin.settings.autoRenameFolders = value.split('\n').map(folder => folder.trim()).filter(folder => folder);
+					await this.plugin.saveSettings();
+				}));
+
+		// Counters
+		this.displayCounters(containerEl);
+
 		// Help section (using Setting.setHeading as recommended)
 		new Setting(containerEl).setName('Template syntax help').setHeading();
 		
-		// Date and time 
-		new Setting(containerEl).setName('Date and time').setClass('setting-item-heading');
-		
-		const dateTimeSection = containerEl.createDiv({ cls: 'setting-item-description' });
-		const dateTimeList = dateTimeSection.createEl('ul', { cls: 'help-list' });
-		const dateTimeItems = [
-			{ name: '{YYYY}', desc: '4-digit year (e.g., 2025)' },
-			{ name: '{YY}', desc: '2-digit year (e.g., 25)' },
-			{ name: '{MM}', desc: '2-digit month (01-12)' },
-			{ name: '{M}', desc: 'Month without leading zero (1-12)' },
-			{ name: '{MMMM}', desc: 'Full month name (January, February...)' },
-			{ name: '{MMM}', desc: 'Short month name (Jan, Feb...)' },
-			{ name: '{DD}', desc: '2-digit day (01-31)' },
-			{ name: '{D}', desc: 'Day without leading zero (1-31)' },
-			{ name: '{DDD}', desc: 'Day of year (001-366)' },
-			{ name: '{dddd}', desc: 'Full weekday name (Monday, Tuesday...)' },
-			{ name: '{ddd}', desc: 'Short weekday name (Mon, Tue...)' },
-			{ name: '{WW}', desc: 'Week number of year (01-53)' },
-			{ name: '{Q}', desc: 'Quarter of year (1-4)' },
-			{ name: '{HH}', desc: '2-digit hour, 24-hour format (00-23)' },
-			{ name: '{H}', desc: 'Hour without leading zero (0-23)' },
-			{ name: '{mm}', desc: '2-digit minute (00-59)' },
-			{ name: '{m}', desc: 'Minute without leading zero (0-59)' },
-			{ name: '{ss}', desc: '2-digit second (00-59)' },
-			{ name: '{s}', desc: 'Second without leading zero (0-59)' },
-			{ name: '{SSS}', desc: '3-digit millisecond (000-999)' }
-		];
-		
-		this.createHelpList(dateTimeList, dateTimeItems);
-		
-		// IDs and timestamps
-		new Setting(containerEl).setName('Unique identifiers and timestamps').setClass('setting-item-heading');
-		
-		const idSection = containerEl.createDiv({ cls: 'setting-item-description' });
-		const idList = idSection.createEl('ul', { cls: 'help-list' });
-		const idItems = [
-			{ name: '{random:N}', desc: 'Random string of N characters' },
-			{ name: '{uuid}', desc: 'Generate a UUID/GUID' },
-			{ name: '{shortid}', desc: 'Generate a shorter unique ID (8 chars)' },
-			{ name: '{unixtime:B}', desc: 'Unix timestamp in base B (2-36)' },
-			{ name: '{daytime:B}', desc: 'Seconds since midnight in base B (2-36)' },
-			{ name: '{hash:text}', desc: 'Create a hash of provided text' }
-		];
-		
-		this.createHelpList(idList, idItems);
-		
-		// Counter variables
-		new Setting(containerEl).setName('Counter variables').setClass('setting-item-heading');
-		
-		const counterSection = containerEl.createDiv({ cls: 'setting-item-description' });
-		const counterList = counterSection.createEl('ul', { cls: 'help-list' });
-		const counterItems = [
-			{ name: '{counter}', desc: 'Global auto-incrementing counter' },
-			{ name: '{counter:name}', desc: 'Named counter (separate sequence)' },
-			{ name: '{counter:reset}', desc: 'Reset all counters' }
-		];
-		
-		this.createHelpList(counterList, counterItems);
-		
-		// System variables
-		new Setting(containerEl).setName('System variables').setClass('setting-item-heading');
-		
-		const systemSection = containerEl.createDiv({ cls: 'setting-item-description' });
-		const systemList = systemSection.createEl('ul', { cls: 'help-list' });
-		const systemItems = [
-			{ name: '{hostname}', desc: 'Computer/device name' },
-			{ name: '{username}', desc: 'Current user\'s name' }
-		];
+		// Variables, by section
+		for (const section of VARIABLE_SECTIONS) {
+			const sectionItems = this.plugin.getVariableHelp(section);
+			if (sectionItems.length === 0) {
+				continue;
+			}
+			
+			new Setting(containerEl).setName(section).setClass('setting-item-heading');
+			
+			const sectionEl = containerEl.createDiv({ cls: 'setting-item-description' });
+			const sectionList = sectionEl.createEl('ul', { cls: 'help-list' });
+			this.createHelpList(sectionList, sectionItems);
+		}
 		
-		this.createHelpList(systemList, systemItems);
+		// Filters
+		new Setting(containerEl).setName('Filters').setClass('setting-item-heading');
 		
-		// Text formatting
-		new Setting(containerEl).setName('Text formatting').setClass('setting-item-heading');
+		const filterSection = containerEl.createDiv({ cls: 'setting-item-description' });
+		const filterList = filterSection.createEl('ul', { cls: 'help-list' });
+		this.createHelpList(filterList, FILTER_HELP);
 		
-		const formatSection = containerEl.createDiv({ cls: 'setting-item-description' });
-		const formatList = formatSection.createEl('ul', { cls: 'help-list' });
-		const formatItems = [
-			{ name: '{lowercase:text}', desc: 'Convert text to lowercase' },
-			{ name: '{uppercase:text}', desc: 'Convert text to uppercase' },
-			{ name: '{slugify:text}', desc: 'Convert text to URL-friendly slug' }
-		];
+		// Nesting and escaping
+		new Setting(containerEl).setName('Nesting and escaping').setClass('setting-item-heading');
 		
-		this.createHelpList(formatList, formatItems);
+		const syntaxSection = containerEl.createDiv({ cls: 'setting-item-description' });
+		const syntaxList = syntaxSection.createEl('ul', { cls: 'help-list' });
+		this.createHelpList(syntaxList, SYNTAX_HELP);
 		
 		// Examples section
 		new Setting(containerEl).setName('Examples').setHeading();
@@ -801,6 +4684,381 @@ class TemplateFilenameSettingTab extends PluginSettingTab {
 		});
 	}
 	
+	/**
+	 * Render the settings of a single profile
+	 * @param containerEl Element to render into
+	 * @param profile The profile
+	 * @param index Position of the profile in the list
+	 */
+	displayProfile(containerEl: HTMLElement, profile: TemplateProfile, index: number) {
+		const profiles = this.plugin.settings.profiles;
+		const profileEl = containerEl.createDiv({ cls: 'template-filename-profile' });
+
+		new Setting(profileEl)
+			.setName('Name')
+			.addText(text => text
+				.setPlaceholder('Meeting notes')
+				.setValue(profile.name)
+				.onChange(async (value) => {
+					profile.name = value;
+					await this.saveProfiles();
+				}))
+			.addExtraButton(button => button
+				.setIcon('arrow-up')
+				.setTooltip('Move up')
+				.setDisabled(index === 0)
+				.onClick(async () => {
+					if (index === 0) return;
+					profiles.splice(index - 1, 0, profiles.splice(index, 1)[0]);
+					await this.saveProfiles();
+					this.display();
+				}))
+			.addExtraButton(button => button
+				.setIcon('arrow-down')
+				.setTooltip('Move down')
+				.setDisabled(index === profiles.length - 1)
+				.onClick(async () => {
+					if (index === profiles.length - 1) return;
+					profiles.splice(index + 1, 0, profiles.splice(index, 1)[0]);
+					await this.saveProfiles();
+					this.display();
+				}))
+			.addExtraButton(button => button
+				.setIcon('trash')
+				.setTooltip('Delete profile')
+				.onClick(async () => {
+					profiles.splice(index, 1);
+					await this.saveProfiles();
+					this.display();
+				}));
+
+		const templateSetting = new Setting(profileEl)
+			.setName('Filename template')
+			.addText(text => this.addVariableSuggest(text)
+				.setPlaceholder('YYYY-MM-DD_HH-mm-ss')
+				.setValue(profile.template)
+				.onChange(async (value) => {
+					profile.template = value;
+					validateTemplate(value);
+					await this.plugin.saveSettings();
+				}));
+		const validateTemplate = this.addTemplateValidation(templateSetting, profile.template);
+
+		new Setting(profileEl)
+			.setName('Note content')
+			.addTextArea(text => text
+				.setPlaceholder('Enter note content')
+				.setValue(profile.content)
+				.onChange(async (value) => {
+					profile.content = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(profileEl)
+			.setName('Template file')
+			.setDesc('A note to use as content instead of the text above')
+			.addText(text => {
+				new TemplateFileSuggest(this.app, text.inputEl, this.plugin);
+				text
+					.setPlaceholder('Example: templates/meeting.md')
+					.setValue(profile.contentFile)
+					.onChange(async (value) => {
+						profile.contentFile = value.trim();
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(profileEl)
+			.setName('Location')
+			.addDropdown(dropdown => dropdown
+				.addOptions(NOTE_LOCATIONS)
+				.setValue(profile.location)
+				.onChange(async (value: NoteLocation) => {
+					profile.location = value;
+					await this.plugin.saveSettings();
+				}));
+
+		const folderSetting = new Setting(profileEl)
+			.setName('Folder')
+			.setDesc('Folder to create notes in, relative to the vault root. Supports template variables; missing folders are created.')
+			.addText(text => this.addVariableSuggest(text)
+				.setPlaceholder('Example: meetings/{YYYY}')
+				.setValue(profile.folder)
+				.onChange(async (value) => {
+					profile.folder = value;
+					validateFolder(value);
+					await this.plugin.saveSettings();
+				}));
+		const validateFolder = this.addTemplateValidation(folderSetting, profile.folder);
+
+		new Setting(profileEl)
+			.setName('Open')
+			.addDropdown(dropdown => dropdown
+				.addOptions(OPEN_IN)
+				.setValue(profile.openIn)
+				.onChange(async (value: OpenIn) => {
+					profile.openIn = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(profileEl)
+			.setName('View')
+			.addDropdown(dropdown => dropdown
+				.addOptions(VIEW_MODES)
+				.setValue(profile.viewMode)
+				.onChange(async (value: ViewMode) => {
+					profile.viewMode = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(profileEl)
+			.setName('Cursor')
+			.setDesc('Where to place the cursor if the content has no {cursor} marker')
+			.addDropdown(dropdown => dropdown
+				.addOptions(CURSOR_POSITIONS)
+				.setValue(profile.cursorPosition)
+				.onChange(async (value: CursorPosition) => {
+					profile.cursorPosition = value;
+					await this.plugin.saveSettings();
+				}));
+	}
+
+	/**
+	 * Render the settings of a single variable defined in the settings
+	 * @param containerEl Element to render into
+	 * @param variable The variable
+	 * @param index Position of the variable in the list
+	 */
+	displayUserVariable(containerEl: HTMLElement, variable: UserVariable, index: number) {
+		const variables = this.plugin.settings.userVariables;
+		const variableEl = containerEl.createDiv({ cls: 'template-filename-variable' });
+
+		const nameSetting = new Setting(variableEl)
+			.setName('Name')
+			.addText(text => text
+				.setPlaceholder('team')
+				.setValue(variable.name)
+				.onChange(async (value) => {
+					variable.name = value.trim();
+					validateName();
+					await this.plugin.saveSettings();
+				}))
+			.addDropdown(dropdown => dropdown
+				.addOptions(USER_VARIABLE_TYPES)
+				.setValue(variable.type)
+				.onChange(async (value: UserVariableType) => {
+					variable.type = value;
+					await this.plugin.saveSettings();
+					this.display();
+				}))
+			.addExtraButton(button => button
+				.setIcon('trash')
+				.setTooltip('Delete variable')
+				.onClick(async () => {
+					variables.splice(index, 1);
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+		const nameIssuesEl = nameSetting.descEl.createDiv({ cls: 'template-issues' });
+		const validateName = () => {
+			nameIssuesEl.setText(variable.name ? this.plugin.checkUserVariableName(variable.name, index) || '' : '');
+		};
+		validateName();
+
+		switch (variable.type) {
+			case 'constant':
+				new Setting(variableEl)
+					.setName('Value')
+					.setDesc('Inserted as it is')
+					.addText(text => text
+						.setPlaceholder('ENG')
+						.setValue(variable.value)
+						.onChange(async (value) => {
+							variable.value = value;
+							await this.plugin.saveSettings();
+						}));
+				break;
+			case 'alias': {
+				const aliasSetting = new Setting(variableEl)
+					.setName('Template')
+					.setDesc('Processed like the template it is used in. Aliases may use other aliases, but not themselves.')
+					.addText(text => this.addVariableSuggest(text)
+						.setPlaceholder('{YYYY}-{MM}-{DD}')
+						.setValue(variable.value)
+						.onChange(async (value) => {
+							variable.value = value;
+							validateAlias(value);
+							await this.plugin.saveSettings();
+						}));
+				// Aliases can be used in note content too, so {title} is allowed
+				const validateAlias = this.addTemplateValidation(aliasSetting, variable.value, true);
+				break;
+			}
+			case 'script': {
+				const scriptSetting = new Setting(variableEl)
+					.setName('Script')
+					.setDesc('Body of a function that returns the value. It gets date, a moment for the date of the note; params, the variable parameters; and note, with title, sourcePath, frontmatter, selection and dryRun. Previews show the variable instead of running the script.')
+					.addTextArea(text => {
+						text.inputEl.addClass('template-script-field');
+						text
+							.setPlaceholder("return date.format('YYYY') + '-Q' + date.quarter();")
+							.setValue(variable.value)
+							.onChange(async (value) => {
+								variable.value = value;
+								validateScript();
+								await this.plugin.saveSettings();
+							});
+					})
+					.addExtraButton(button => button
+						.setIcon('play')
+						.setTooltip('Run the script once')
+						.onClick(() => {
+							const error = this.plugin.checkScript(variable.value);
+							if (error) {
+								validateScript();
+								return;
+							}
+							const result = this.plugin.testScript(variable, [], this.plugin.createContext(true));
+							if (result.error !== undefined) {
+								scriptIssuesEl.setText(`Failed: ${result.error}`);
+							} else {
+								scriptResultEl.setText(`Result: "${result.value}"`);
+								scriptIssuesEl.setText('');
+							}
+						}));
+				const scriptIssuesEl = scriptSetting.descEl.createDiv({ cls: 'template-issues' });
+				const scriptResultEl = scriptSetting.descEl.createDiv();
+				const validateScript = () => {
+					scriptResultEl.setText('');
+					scriptIssuesEl.setText(this.plugin.checkScript(variable.value) || '');
+				};
+				validateScript();
+				break;
+			}
+		}
+	}
+
+	/**
+	 * Offer variables while typing in a template text field
+	 * @param text The text field
+	 * @returns The same text field, for chaining
+	 */
+	addVariableSuggest(text: TextComponent): TextComponent {
+		new VariableSuggest(this.app, text.inputEl, this.plugin);
+		return text;
+	}
+
+	/**
+	 * Show the mistakes in a template setting below its description
+	 * @param setting Setting with a template text field
+	 * @param template Current value of the setting
+	 * @param content Whether the template may be used in note content
+	 * @returns Function to call with the new value whenever it changes
+	 */
+	addTemplateValidation(setting: Setting, template: string, content = false): (template: string) => void {
+		const issuesEl = setting.descEl.createDiv({ cls: 'template-issues' });
+		const validate = (value: string) => {
+			this.plugin.displayTemplateIssues(issuesEl, value, this.plugin.validateTemplate(value, content));
+		};
+		validate(template);
+		return validate;
+	}
+
+	/**
+	 * Render the table of counters with their next values
+	 * @param containerEl Element to render into
+	 */
+	displayCounters(containerEl: HTMLElement) {
+		const counters = this.plugin.settings.counters;
+
+		new Setting(containerEl)
+			.setName('Counters')
+			.setDesc('Next value of each counter. Counters are stored with the vault.')
+			.setHeading();
+
+		new Setting(containerEl)
+			.setName('Continue counters from existing notes')
+			.setDesc('Before {counter:name} or {tag} is used, look for notes named with the same template and continue after the highest number found')
+			.addDropdown(dropdown => dropdown
+				.addOptions(COUNTER_INFERENCE)
+				.setValue(this.plugin.settings.counterInference)
+				.onChange(async (value: CounterInference) => {
+					this.plugin.settings.counterInference = value;
+					await this.plugin.saveSettings();
+				}));
+
+		this.displayCounter(containerEl, '{counter}', 'Global counter', counters.global, value => {
+			counters.global = value;
+		});
+
+		this.displayCounter(containerEl, '{tag}', `Tag counter (next tag: ${this.plugin.formatTag(counters.tag)})`, counters.tag, value => {
+			counters.tag = value;
+		});
+
+		Object.keys(counters.named).sort().forEach(name => {
+			this.displayCounter(containerEl, `{counter:${name}}`, 'Named counter', counters.named[name], value => {
+				counters.named[name] = value;
+			}, () => {
+				delete counters.named[name];
+			});
+		});
+	}
+
+	/**
+	 * Render a single counter row
+	 * @param containerEl Element to render into
+	 * @param name Variable the counter belongs to
+	 * @param desc Description of the counter
+	 * @param value Next value of the counter
+	 * @param setValue Callback to change the next value
+	 * @param deleteCounter Callback to delete the counter, if it can be deleted
+	 */
+	displayCounter(containerEl: HTMLElement, name: string, desc: string, value: number,
+		setValue: (value: number) => void, deleteCounter?: () => void) {
+		const setting = new Setting(containerEl)
+			.setName(name)
+			.setDesc(desc)
+			.addText(text => {
+				text.inputEl.type = 'number';
+				text
+					.setValue(value.toString())
+					.onChange(async (newValue) => {
+						const parsed = parseInt(newValue);
+						if (!isNaN(parsed)) {
+							setValue(parsed);
+							await this.plugin.saveSettings();
+						}
+					});
+			})
+			.addExtraButton(button => button
+				.setIcon('rotate-ccw')
+				.setTooltip('Reset to 1')
+				.onClick(async () => {
+					setValue(1);
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		if (deleteCounter) {
+			setting.addExtraButton(button => button
+				.setIcon('trash')
+				.setTooltip('Delete counter')
+				.onClick(async () => {
+					deleteCounter();
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+		}
+	}
+
+	/**
+	 * Save the settings and refresh the profile commands
+	 */
+	async saveProfiles() {
+		await this.plugin.saveSettings();
+		this.plugin.registerProfileCommands();
+	}
+	
 	createHelpList(parentEl: HTMLElement, items: {name: string, desc: string}[]) {
 		items.forEach(item => {
 			const listItem = parentEl.createEl('li');